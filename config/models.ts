@@ -1,8 +1,38 @@
-// Centralized model configuration for Anthropic API calls.
+// Centralized model configuration for LLM calls (client layer: scripts/llm-client.ts).
 // Update here when migrating models — no need to grep the codebase.
-// SYNTHESIS_MODEL permet de basculer la synthèse sur un autre modèle
-// (ex: kimi-k3 via l'endpoint Anthropic-compatible de Moonshot) sans toucher au code.
-export const MODELS = {
+
+// Types d'API supportés par scripts/llm-client.ts
+export type LlmApi = "anthropic" | "openai-compatible" | "ollama";
+
+export interface LlmProvider {
+  api: LlmApi;
+  // URL de l'API, toujours explicite : le SDK Anthropic lirait sinon ANTHROPIC_BASE_URL
+  baseUrl: string;
+  // Variable d'environnement contenant la clé (absente : pas d'authentification, ex: modèle local)
+  apiKeyEnv?: string;
+  // Clé envoyée en "Authorization: Bearer" plutôt qu'en x-api-key (endpoints Anthropic-compatibles tiers)
+  bearerAuth?: boolean;
+}
+
+export const PROVIDERS = {
+  anthropic: { api: "anthropic", baseUrl: "https://api.anthropic.com", apiKeyEnv: "ANTHROPIC_API_KEY" },
+  // Moonshot expose un endpoint compatible API Anthropic (kimi-k3)
+  moonshot: { api: "anthropic", baseUrl: "https://api.moonshot.ai/anthropic", apiKeyEnv: "MOONSHOT_API_KEY", bearerAuth: true },
+  openai: { api: "openai-compatible", baseUrl: "https://api.openai.com/v1", apiKeyEnv: "OPENAI_API_KEY" },
+  // Modèles locaux : llama.cpp (llama-server) expose l'API OpenAI, Ollama son API native
+  llamacpp: { api: "openai-compatible", baseUrl: process.env.LLAMACPP_URL || "http://localhost:8080/v1" },
+  ollama: { api: "ollama", baseUrl: process.env.OLLAMA_URL || "http://localhost:11434" },
+} satisfies Record<string, LlmProvider>;
+
+export type ProviderName = keyof typeof PROVIDERS;
+
+export type LlmTask = "synthesis" | "grounding";
+
+// Routage par tâche, au format "fournisseur:modèle" (ex: "moonshot:kimi-k3", "ollama:qwen3:14b").
+// Surchargeable par env (LLM_SYNTHESIS, LLM_GROUNDING) pour tester un autre modèle sans toucher au code.
+export const MODEL_ROUTES: Record<LlmTask, string> = {
   // Rédaction analytique multi-sources, qualité maximale
-  synthesis: process.env.SYNTHESIS_MODEL || "claude-opus-5",
-} as const;
+  synthesis: process.env.LLM_SYNTHESIS || "anthropic:claude-opus-5",
+  // Vérification des affirmations non retrouvées dans les sources (scripts/grounding.ts)
+  grounding: process.env.LLM_GROUNDING || "anthropic:claude-haiku-4-5",
+};
@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import { extractArticleBody, isPaywalled, keyParagraphs } from './article-body.js';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'article-pages');
+
+function page(file: string): string {
+  return readFileSync(join(FIXTURES_DIR, file), 'utf-8');
+}
+
+function paragraphs(text: string): string[] {
+  return text.split('\n\n');
+}
+
+describe('extractArticleBody', () => {
+  it('keeps the editorial paragraphs of a regular article, in order', () => {
+    const body = extractArticleBody(page('article.html'));
+
+    expect(body.paywalled).toBe(false);
+    expect(paragraphs(body.text)).toEqual([
+      "Les autorités de transition du Mali ont annoncé mercredi 11 mars la suspension « jusqu'à nouvel ordre » des activités des partis politiques et des associations à caractère politique.",
+      "Le décret, lu à la télévision nationale, invoque des « menaces sur l'ordre public » après plusieurs appels de l'opposition à un retour rapide à l'ordre constitutionnel.",
+      'Plusieurs responsables de partis ont dénoncé une décision « liberticide » et annoncé leur intention de saisir la Cour constitutionnelle.',
+      "La Communauté économique des États de l'Afrique de l'Ouest (Cédéao), que le Mali a quittée en 2025, n'avait pas réagi mercredi soir.",
+    ]);
+  });
+
+  it('drops navigation, asides, ads, link lists, newsletter and cookie notices', () => {
+    const body = extractArticleBody(page('boilerplate.html'));
+
+    expect(body.paywalled).toBe(false);
+    expect(paragraphs(body.text).map(p => p.slice(0, 40))).toEqual([
+      "Taiwan's largest semiconductor manufactu",
+      'Executives told investors this week that',
+      "Analysts warn that the expansion could s",
+      'Government officials in Taipei have said',
+    ]);
+    expect(body.text).not.toMatch(/cookies|newsletter|Most read|Nvidia|Read more|All rights reserved/);
+  });
+
+  it('keeps editorial paragraphs that mention cookies or a newsletter', () => {
+    const body = extractArticleBody(page('cookies.html'));
+
+    expect(paragraphs(body.text).map(p => p.slice(0, 40))).toEqual([
+      "La Commission nationale de l'informatiqu",
+      'Le gendarme de la vie privée reproche au',
+      'Shein, qui conteste la sanction, a deux ',
+    ]);
+    expect(body.text).not.toMatch(/Ce site utilise|Inscrivez-vous|Tous droits réservés/);
+  });
+
+  it('flags a paywalled article and keeps only its free opening', () => {
+    const body = extractArticleBody(page('paywalled.html'));
+
+    expect(body.paywalled).toBe(true);
+    expect(paragraphs(body.text)).toHaveLength(2);
+    expect(body.text).toMatch(/^Dans un avis transmis lundi/);
+    expect(body.text).not.toMatch(/Il vous reste|abonnés/);
+  });
+
+  it('caps the text on a paragraph boundary', () => {
+    const body = extractArticleBody(page('article.html'), 400);
+
+    expect(body.text.length).toBeLessThanOrEqual(400);
+    expect(paragraphs(body.text)).toHaveLength(2);
+  });
+
+  it('returns an empty text when the page has no article body', () => {
+    const html = '<html><body><main><h1>Vidéos</h1><p><a href="/v/1">Les images du sommet de Bruxelles en direct</a></p></main></body></html>';
+    expect(extractArticleBody(html)).toEqual({ text: '', paywalled: false });
+  });
+});
+
+describe('isPaywalled', () => {
+  it('detects structured data, content tier meta and visible markers', () => {
+    expect(isPaywalled('<script type="application/ld+json">{"isAccessibleForFree": false}</script>')).toBe(true);
+    expect(isPaywalled('<meta property="article:content_tier" content="metered">')).toBe(true);
+    expect(isPaywalled('<div class="article__premium">...</div>')).toBe(true);
+    expect(isPaywalled('<p>Cet article est réservé aux abonnés.</p>')).toBe(true);
+  });
+
+  it('does not flag free articles', () => {
+    expect(isPaywalled(page('article.html'))).toBe(false);
+    expect(isPaywalled(page('boilerplate.html'))).toBe(false);
+    expect(isPaywalled('<meta property="article:content_tier" content="free">')).toBe(false);
+  });
+});
+
+describe('keyParagraphs', () => {
+  it('skips the paragraph repeating the description', () => {
+    const { text } = extractArticleBody(page('article.html'));
+    const excerpt = keyParagraphs(text, 'Les autorités de transition du Mali ont annoncé mercredi 11 mars la suspension', 1000);
+
+    expect(excerpt).toMatch(/^Le décret, lu à la télévision nationale/);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Article Body - Extraction du texte principal d'une page article (façon Readability)
+ *
+ * Le flux RSS ne fournit qu'une accroche : avec `--full-text`, curate.ts
+ * télécharge la page et en extrait le corps nettoyé (`bodyText`, longueur
+ * plafonnée), que synthesize.ts donne au modèle en plus de la description.
+ *
+ * L'extraction travaille sur le HTML brut (pas de DOM) pour pouvoir être
+ * testée hors-ligne sur des pages sauvegardées :
+ *   1. suppression des blocs non éditoriaux (script, nav, footer, aside...)
+ *   2. choix du conteneur principal (articleBody, <article>, <main>, sinon la page)
+ *   3. conservation des paragraphes <p> assez longs, peu chargés en liens
+ *      et hors mentions de service (« Lire aussi », bandeau cookies, newsletter...)
+ *
+ * Les articles réservés aux abonnés sont signalés (`paywalled`) : le texte
+ * extrait n'est alors qu'un début d'article.
+ */
+
+import { stripHtml } from './feed-adapters.js';
+
+/**
+ * Longueur maximale du texte conservé par article (caractères)
+ */
+export const MAX_BODY_LENGTH = 3000;
+
+/**
+ * En dessous de cette longueur, l'extraction est jugée ratée (page d'index, vidéo...)
+ */
+const MIN_BODY_LENGTH = 200;
+
+const MIN_PARAGRAPH_LENGTH = 40;
+
+/**
+ * Part maximale du texte d'un paragraphe contenue dans des liens
+ */
+const MAX_LINK_DENSITY = 0.5;
+
+export interface ArticleBody {
+  /** Paragraphes séparés par une ligne vide, vide si l'extraction a échoué */
+  text: string;
+  paywalled: boolean;
+}
+
+/**
+ * Blocs retirés avant extraction (navigation, publicité, médias, formulaires)
+ */
+const NOISE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'header', 'footer', 'aside', 'form', 'figure', 'button', 'select'];
+
+/**
+ * Conteneurs du corps d'article, par ordre de préférence
+ */
+const CONTAINER_PATTERNS = [
+  /<(\w+)\b[^>]*itemprop="articleBody"[^>]*>/i,
+  /<(\w+)\b[^>]*class="[^"]*\b(?:article__content|article-body|article__body|story-body|entry-content|post-content)\b[^"]*"[^>]*>/i,
+  /<(article)\b[^>]*>/i,
+  /<(main)\b[^>]*>/i,
+];
+
+/**
+ * Paragraphes de service à ignorer
+ */
+const BOILERPLATE_PATTERNS = [
+  /^(lire aussi|à lire aussi|read more|related|voir aussi|écouter aussi|regarder aussi)\b/i,
+  /il vous reste \d+ ?%|réservée? aux abonnés/i,
+];
+
+/**
+ * Mentions de service (bandeau cookies, inscription, copyright) : ignorées
+ * seulement sur un paragraphe court, un article peut parler de cookies
+ */
+const SERVICE_LINE_PATTERNS = [
+  /\bcookies?\b/i,
+  /\bnewsletter\b/i,
+  /\b(abonnez-vous|inscrivez-vous|subscribe|sign up)\b/i,
+  /©|\ball rights reserved\b|\btous droits réservés\b/i,
+];
+
+const MAX_SERVICE_LINE_LENGTH = 200;
+
+function isBoilerplate(text: string): boolean {
+  return BOILERPLATE_PATTERNS.some(pattern => pattern.test(text))
+    || (text.length <= MAX_SERVICE_LINE_LENGTH && SERVICE_LINE_PATTERNS.some(pattern => pattern.test(text)));
+}
+
+/**
+ * Indices de paywall : balisage structuré (schema.org, article:content_tier)
+ * puis marqueurs visibles des sites suivis
+ */
+const PAYWALL_PATTERNS = [
+  /"isAccessibleForFree"\s*:\s*"?false"?/i,
+  /<meta[^>]+(?:property|name)="article:content_tier"[^>]+content="(?:locked|metered)"/i,
+  /class="[^"]*\b(?:paywall|article__premium|premium-content|meter-paywall)\b/i,
+  /réservé aux abonnés|il vous reste \d+% de cet article|subscribe to (?:continue|read)/i,
+];
+
+export function isPaywalled(html: string): boolean {
+  return PAYWALL_PATTERNS.some(pattern => pattern.test(html));
+}
+
+/**
+ * Supprime les commentaires et les blocs non éditoriaux
+ */
+function removeNoise(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of NOISE_TAGS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+  return cleaned;
+}
+
+/**
+ * Contenu d'un élément à partir de sa balise ouvrante, en tenant compte
+ * des éléments du même nom imbriqués
+ */
+function elementContent(html: string, openIndex: number, openLength: number, tag: string): string {
+  const tagPattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  tagPattern.lastIndex = openIndex + openLength;
+
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return html.slice(openIndex + openLength, match.index);
+  }
+  return html.slice(openIndex + openLength);
+}
+
+/**
+ * HTML du conteneur principal de l'article
+ */
+function mainContainer(html: string): string {
+  for (const pattern of CONTAINER_PATTERNS) {
+    const match = pattern.exec(html);
+    if (match) {
+      const content = elementContent(html, match.index, match[0].length, match[1]);
+      if (stripHtml(content).length >= MIN_BODY_LENGTH) return content;
+    }
+  }
+  return html;
+}
+
+function linkDensity(paragraphHtml: string, textLength: number): number {
+  let linkText = 0;
+  for (const [, inner] of paragraphHtml.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)) {
+    linkText += stripHtml(inner).length;
+  }
+  return textLength === 0 ? 1 : linkText / textLength;
+}
+
+/**
+ * Paragraphes éditoriaux du conteneur, dans l'ordre et sans doublons
+ */
+function editorialParagraphs(containerHtml: string): string[] {
+  const paragraphs: string[] = [];
+  const seen = new Set<string>();
+
+  for (const [, inner] of containerHtml.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+    const text = stripHtml(inner);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+    if (linkDensity(inner, text.length) > MAX_LINK_DENSITY) continue;
+    if (isBoilerplate(text)) continue;
+    if (seen.has(text)) continue;
+
+    seen.add(text);
+    paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+/**
+ * Coupe une liste de paragraphes à maxLength caractères, sur une limite de
+ * paragraphe quand c'est possible
+ */
+function capParagraphs(paragraphs: string[], maxLength: number): string {
+  let text = '';
+  for (const paragraph of paragraphs) {
+    const next = text ? `${text}\n\n${paragraph}` : paragraph;
+    if (next.length > maxLength) {
+      return text || paragraph.slice(0, maxLength);
+    }
+    text = next;
+  }
+  return text;
+}
+
+/**
+ * Extrait le corps d'un article depuis son HTML
+ */
+export function extractArticleBody(html: string, maxLength = MAX_BODY_LENGTH): ArticleBody {
+  const paywalled = isPaywalled(html);
+  const paragraphs = editorialParagraphs(mainContainer(removeNoise(html)));
+  const text = capParagraphs(paragraphs, maxLength);
+
+  return {
+    text: text.length >= MIN_BODY_LENGTH ? text : '',
+    paywalled,
+  };
+}
+
+/**
+ * Paragraphes clés d'un corps d'article pour le prompt de synthèse :
+ * les premiers paragraphes (l'essentiel de l'information dans une dépêche),
+ * sans répéter la description déjà fournie.
+ */
+export function keyParagraphs(bodyText: string, description: string, maxLength: number): string {
+  const teaser = description.trim().slice(0, 60);
+  const paragraphs = bodyText
+    .split(/\n{2,}/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0 && !(teaser && p.startsWith(teaser)));
+  return capParagraphs(paragraphs, maxLength);
+}
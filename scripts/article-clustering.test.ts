@@ -0,0 +1,111 @@
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import { clusterArticles, type ArticleCluster, type RawArticle } from './article-clustering.js';
+import { DEFAULT_CLUSTERING_OPTIONS } from './clustering.js';
+import { loadImportanceConfig } from './importance.js';
+import { assignThreads, type ThreadStore } from './story-threads.js';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'clustering');
+
+interface ClusteringFixture {
+  referenceTime: string;
+  articles: RawArticle[];
+}
+
+function fixture(day: string): ClusteringFixture {
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, `${day}.json`), 'utf-8'));
+}
+
+function emptyThreads(): ThreadStore {
+  return { updatedAt: new Date(0).toISOString(), threads: [] };
+}
+
+/**
+ * Clusters of every category, as cluster.ts builds them (categories in a fixed order, so the
+ * output does not depend on which category comes first in the input)
+ */
+function clusterByCategory(day: ClusteringFixture, threads = emptyThreads()): ArticleCluster[] {
+  const referenceTime = new Date(day.referenceTime).getTime();
+  const categories = [...new Set(day.articles.map(a => a.category))].sort();
+  return categories.flatMap(category =>
+    clusterArticles(
+      day.articles.filter(a => a.category === category),
+      referenceTime,
+      DEFAULT_CLUSTERING_OPTIONS,
+      loadImportanceConfig(),
+      threads
+    )
+  );
+}
+
+/**
+ * Multi-article clusters as sorted id lists, in the format of fixtures/clustering/golden
+ */
+function partition(clusters: ArticleCluster[]): string[][] {
+  return clusters
+    .filter(c => c.articles.length > 1)
+    .map(c => c.articles.map(a => a.id).sort())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * Deterministic Fisher-Yates shuffle (LCG), so a failure reproduces
+ */
+function shuffled<T>(items: T[], seed: number): T[] {
+  const result = [...items];
+  let state = seed;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    const j = state % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const DAYS = ['2026-08-20', '2026-08-21'];
+
+describe('golden set', () => {
+  it.each(DAYS)('%s matches the committed partition', dayName => {
+    const golden = JSON.parse(readFileSync(join(FIXTURES_DIR, 'golden', `${dayName}.json`), 'utf-8')) as { clusters: string[][] };
+    expect(partition(clusterByCategory(fixture(dayName)))).toEqual(golden.clusters);
+  });
+
+  it.each(DAYS)('%s gives the same clusters whatever the input order', dayName => {
+    const day = fixture(dayName);
+    const expected = clusterByCategory(day);
+    for (const articles of [[...day.articles].reverse(), shuffled(day.articles, 1), shuffled(day.articles, 42)]) {
+      expect(clusterByCategory({ ...day, articles })).toEqual(expected);
+    }
+  });
+});
+
+describe('cluster ids', () => {
+  it('are unique across categories, so each cluster gets its own thread', () => {
+    const day = fixture('2026-08-20');
+    const threads = emptyThreads();
+    const clusters = clusterByCategory(day, threads);
+    expect(new Set(clusters.map(c => c.category)).size).toBeGreaterThan(1);
+
+    const ids = clusters.map(c => c.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain('cluster-eco-1');
+    expect(ids).toContain('cluster-tech-1');
+
+    const matches = assignThreads(
+      threads,
+      clusters.map(c => ({ key: c.id, title: c.topic, category: c.category, features: c._threadFeatures! })),
+      new Date(day.referenceTime)
+    );
+    const threadIds = clusters.map(c => matches.get(c.id)!.threadId);
+    expect(new Set(threadIds).size).toBe(clusters.length);
+    expect(threads.threads).toHaveLength(clusters.length);
+  });
+
+  it('rejects duplicate candidate keys when assigning threads', () => {
+    const [cluster] = clusterByCategory(fixture('2026-08-20'));
+    const candidate = { key: 'cluster-1', title: cluster.topic, category: cluster.category, features: cluster._threadFeatures! };
+    expect(() => assignThreads(emptyThreads(), [candidate, { ...candidate, category: 'tech' }], new Date())).toThrow('en double');
+  });
+});
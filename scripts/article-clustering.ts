@@ -0,0 +1,272 @@
+/**
+ * Article Clustering - Regroupement des articles d'une catégorie en clusters
+ *
+ * Représentation pondérée multi-champs (voir text-features.ts), TF-IDF,
+ * similarité cosinus renforcée par les entités partagées, puis classification
+ * hiérarchique ascendante (voir clustering.ts). Chaque cluster reçoit son
+ * score d'importance (voir importance.ts) et les caractéristiques servant au
+ * rattachement aux fils d'actualité (voir story-threads.ts). Les corrections
+ * éditoriales (must-link / cannot-link, voir cluster-overrides.ts) contraignent
+ * la classification, dont chaque fusion peut être journalisée.
+ *
+ * Utilisé par cluster.ts (pipeline quotidien) et eval-cluster.ts (évaluation
+ * sur les jours annotés de fixtures/clustering).
+ */
+
+import { termCounts, entityKeys } from './text-features.js';
+import { agglomerativeClusters, clusterDiagnostics, type ClusteringOptions } from './clustering.js';
+import { closestThread, threadFeatures, type ThreadFeatures, type ThreadStore } from './story-threads.js';
+import { scoreImportance, type ImportanceBreakdown, type ImportanceConfig } from './importance.js';
+import {
+  linkPairs,
+  type ClusterLogEvent,
+  type ClusterOverrides,
+  type LoggedArticle,
+  type SelectableArticle,
+} from './cluster-overrides.js';
+
+// Types
+export interface RawArticle {
+  id: string;
+  title: string;
+  description: string;
+  url: string;
+  imageUrl: string | null;
+  source: string;
+  category: 'geopolitique' | 'tech' | 'eco';
+  publishedAt: string;
+  fetchedAt: string;
+  sourceLanguage?: string;
+  sourceCountry?: string;
+  sourceTier?: 'wire' | 'reference' | 'aggregator';
+  sourceLeaning?: string;
+  sourceWeight?: number;
+  language?: string;
+  bodyText?: string;
+}
+
+export interface ArticleCluster {
+  id: string;
+  topic: string;
+  category: 'geopolitique' | 'tech' | 'eco';
+  importance: number;
+  /** Détail du score par facteur (voir importance.ts) */
+  importanceBreakdown?: ImportanceBreakdown;
+  articles: RawArticle[];
+  /** Fil d'actualité (voir story-threads.ts) */
+  threadId?: string;
+  // Internal: entities + TF-IDF centroid for thread matching, stripped before output
+  _threadFeatures?: ThreadFeatures;
+  // Tuning diagnostics (see clustering.ts)
+  diagnostics?: {
+    cohesion: number | null;
+    nearestRejected: { id: string; title: string; similarity: number } | null;
+  };
+}
+
+/**
+ * Build TF-IDF vectors from weighted term counts (see text-features.ts)
+ */
+export function buildTfIdf(documents: Map<string, number>[]): Map<string, number>[] {
+  const docFreq = new Map<string, number>();
+  const numDocs = documents.length;
+
+  for (const doc of documents) {
+    for (const term of doc.keys()) {
+      docFreq.set(term, (docFreq.get(term) || 0) + 1);
+    }
+  }
+
+  return documents.map((termFreq) => {
+    const tfidf = new Map<string, number>();
+    for (const [term, tf] of termFreq) {
+      const df = docFreq.get(term) || 1;
+      const idf = Math.log(numDocs / df);
+      tfidf.set(term, tf * idf);
+    }
+
+    return tfidf;
+  });
+}
+
+/**
+ * Calculate cosine similarity
+ */
+export function cosineSimilarity(vec1: Map<string, number>, vec2: Map<string, number>): number {
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (const [term, weight] of vec1) {
+    norm1 += weight * weight;
+    if (vec2.has(term)) {
+      dotProduct += weight * vec2.get(term)!;
+    }
+  }
+
+  for (const weight of vec2.values()) {
+    norm2 += weight * weight;
+  }
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+}
+
+/**
+ * Calculate entity-based similarity (Jaccard)
+ */
+export function entitySimilarity(entities1: Set<string>, entities2: Set<string>): number {
+  if (entities1.size === 0 || entities2.size === 0) return 0;
+
+  const intersection = new Set([...entities1].filter(x => entities2.has(x)));
+  const union = new Set([...entities1, ...entities2]);
+
+  return intersection.size / union.size;
+}
+
+/**
+ * Combined similarity score
+ * Uses text similarity as primary signal. Entity overlap only boosts when
+ * there are 2+ shared SPECIFIC entities (avoids false matches on generic
+ * countries like "france" or "usa" appearing in unrelated articles).
+ */
+function combinedSimilarity(
+  tfidf1: Map<string, number>,
+  tfidf2: Map<string, number>,
+  entities1: Set<string>,
+  entities2: Set<string>
+): number {
+  const textSim = cosineSimilarity(tfidf1, tfidf2);
+  const intersection = new Set([...entities1].filter(x => entities2.has(x)));
+
+  // Only boost if 2+ specific entities overlap (strong topical signal)
+  if (intersection.size >= 2) {
+    const entSim = entitySimilarity(entities1, entities2);
+    return Math.max(textSim, textSim * 0.5 + entSim * 0.5);
+  }
+
+  // Otherwise, text similarity only
+  return textSim;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Sac de termes d'un article ; langue de la source à défaut de langue détectée
+ * (archives antérieures à la détection), pour appliquer le bon lexique
+ */
+export function articleTerms(article: RawArticle): Map<string, number> {
+  return termCounts({ ...article, language: article.language || article.sourceLanguage });
+}
+
+/**
+ * Article tel que vu par les sélecteurs de config/cluster-overrides.json
+ */
+export function selectableArticle(article: RawArticle): SelectableArticle {
+  return { id: article.id, url: article.url, entities: entityKeys(`${article.title} ${article.description}`) };
+}
+
+/**
+ * Nouveauté d'un cluster (0-1) : 1 - similarité au fil le plus proche s'il
+ * date d'un jour précédent, 1 sinon
+ */
+function noveltyScore(features: ThreadFeatures, threads: ThreadStore, day: string): number {
+  const match = closestThread(threads, features);
+  if (!match || match.thread.days[0] >= day) return 1;
+  return 1 - match.similarity;
+}
+
+/**
+ * Cluster articles. La récence est mesurée par rapport à `referenceTime`
+ * (fin de la fenêtre de curation) pour qu'un backfill donne le même résultat.
+ */
+export function clusterArticles(
+  inputArticles: RawArticle[],
+  referenceTime: number,
+  options: ClusteringOptions,
+  importanceConfig: ImportanceConfig,
+  threads: ThreadStore,
+  overrides?: ClusterOverrides,
+  events?: ClusterLogEvent[]
+): ArticleCluster[] {
+  // Stable order so the result does not depend on feed order
+  const articles = [...inputArticles].sort((a, b) => a.id.localeCompare(b.id));
+  const category = articles[0]?.category ?? '';
+
+  // Weighted multi-field representation (title boosted, description, body)
+  const documents = articles.map((a) => articleTerms(a));
+  const entities = articles.map((a) => entityKeys(`${a.title} ${a.description}`));
+  const vectors = buildTfIdf(documents);
+
+  const similarity = articles.map((_, i) =>
+    articles.map((_, j) => (i === j ? 1 : combinedSimilarity(vectors[i], vectors[j], entities[i], entities[j])))
+  );
+
+  // Editorial constraints (config/cluster-overrides.json)
+  const selectable = articles.map((a, i) => ({ id: a.id, url: a.url, entities: entities[i] }));
+  const mustLink = linkPairs(selectable, overrides?.mustLink || [], false);
+  const cannotLink = linkPairs(selectable, overrides?.cannotLink || [], true);
+  const toIds = (pairs: [number, number][]) => pairs.map(([i, j]) => [articles[i].id, articles[j].id] as [string, string]);
+  for (const { rule, pairs } of mustLink) events?.push({ type: 'must-link', rule, category, pairs: toIds(pairs) });
+  for (const { rule, pairs } of cannotLink) events?.push({ type: 'cannot-link', rule, category, pairs: toIds(pairs) });
+
+  const logged = (group: number[]): LoggedArticle[] => group.map(i => ({ id: articles[i].id, title: articles[i].title }));
+  const groups = agglomerativeClusters(
+    similarity,
+    options,
+    { mustLink: mustLink.flatMap(l => l.pairs), cannotLink: cannotLink.flatMap(l => l.pairs) },
+    step => events?.push({
+      type: 'merge',
+      category,
+      similarity: round2(step.similarity),
+      forced: step.forced,
+      left: logged(step.left),
+      right: logged(step.right),
+    })
+  );
+  const day = new Date(referenceTime).toISOString().split('T')[0];
+
+  return groups.map((group, index) => {
+    const clusterArticles = group.map(idx => articles[idx]);
+
+    // Most representative article (highest mean similarity to the others) names the cluster
+    const centrality = (i: number) => group.reduce((sum, j) => sum + similarity[i][j], 0);
+    const mainIndex = group.reduce((best, i) => (centrality(i) > centrality(best) ? i : best), group[0]);
+    const mainArticle = articles[mainIndex];
+
+    const features = threadFeatures(
+      group.map(idx => vectors[idx]),
+      group.flatMap(idx => [...entities[idx]])
+    );
+    const { importance, breakdown } = scoreImportance(
+      {
+        articles: clusterArticles,
+        entities: features.entities,
+        novelty: noveltyScore(features, threads, day),
+        referenceTime,
+      },
+      importanceConfig
+    );
+
+    const { cohesion, nearestRejected } = clusterDiagnostics(group, similarity);
+
+    return {
+      // Category in the id: clusters of every category are keyed together (threads, cluster log)
+      id: `cluster-${category}-${index + 1}`,
+      topic: mainArticle.title.slice(0, 80),
+      category: mainArticle.category,
+      importance,
+      importanceBreakdown: breakdown,
+      articles: clusterArticles,
+      _threadFeatures: features,
+      diagnostics: {
+        cohesion: cohesion === null ? null : round2(cohesion),
+        nearestRejected: nearestRejected && {
+          id: articles[nearestRejected.index].id,
+          title: articles[nearestRejected.index].title,
+          similarity: round2(nearestRejected.similarity),
+        },
+      },
+    };
+  });
+}
@@ -0,0 +1,124 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { fetchArticleHtml, fetchArticleMetadata } from './article-metadata.js';
+
+const ARTICLE = `<!DOCTYPE html>
+<html><head>
+  <meta property="og:title" content="Le Mali suspend les partis politiques">
+  <meta property="og:description" content="Les autorités de transition invoquent des menaces sur l’ordre public.">
+  <meta property="og:image" content="/images/bamako.jpg">
+</head><body><p>Bamako, 11 mars.</p></body></html>`;
+
+let server: Server;
+let baseUrl: string;
+/** Requests received per path, and the most handled at once on /slow */
+const hits = new Map<string, number>();
+let active = 0;
+let maxActive = 0;
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  const path = req.url ?? '/';
+  hits.set(path, (hits.get(path) ?? 0) + 1);
+
+  switch (path) {
+    case '/article':
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(ARTICLE);
+      break;
+    case '/latin1':
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=ISO-8859-1' })
+        .end(Buffer.from("<p>Élysée : la réforme des retraites adoptée à l'unanimité</p>", 'latin1'));
+      break;
+    case '/cp1252':
+      // 0x80 is the euro sign in Windows-1252
+      res.writeHead(200, { 'Content-Type': 'text/html; charset="windows-1252"' })
+        .end(Buffer.concat([Buffer.from('<p>Une amende de 2 ', 'latin1'), Buffer.from([0x80]), Buffer.from('</p>')]));
+      break;
+    case '/flaky':
+      // 503 the first time, then the page
+      if (hits.get(path) === 1) res.writeHead(503).end();
+      else res.writeHead(200, { 'Content-Type': 'text/html' }).end(ARTICLE);
+      break;
+    case '/missing':
+      res.writeHead(404).end();
+      break;
+    case '/large':
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('a'.repeat(200_000));
+      break;
+    case '/pdf':
+      res.writeHead(200, { 'Content-Type': 'application/pdf' }).end('%PDF-1.7');
+      break;
+    case '/hang':
+      // Never answers: the client has to give up
+      break;
+    default:
+      if (path.startsWith('/slow')) {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        setTimeout(() => {
+          active--;
+          res.writeHead(200, { 'Content-Type': 'text/html' }).end(`<p>${path}</p>`);
+        }, 50);
+      } else {
+        res.writeHead(404).end();
+      }
+  }
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('fetchArticleHtml', () => {
+  it('gives up after the timeout', async () => {
+    const start = Date.now();
+    expect(await fetchArticleHtml(`${baseUrl}/hang`, { timeoutMs: 200, retries: 0 })).toBeNull();
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  it('retries after a 5xx, but not after a 4xx', async () => {
+    expect(await fetchArticleHtml(`${baseUrl}/flaky`)).toBe(ARTICLE);
+    expect(hits.get('/flaky')).toBe(2);
+
+    expect(await fetchArticleHtml(`${baseUrl}/missing`)).toBeNull();
+    expect(hits.get('/missing')).toBe(1);
+  });
+
+  it('stops reading at maxBytes', async () => {
+    const html = await fetchArticleHtml(`${baseUrl}/large`, { maxBytes: 1000 });
+    expect(html).toBe('a'.repeat(1000));
+  });
+
+  it('skips pages that are not HTML', async () => {
+    expect(await fetchArticleHtml(`${baseUrl}/pdf`)).toBeNull();
+  });
+
+  it('decodes the charset announced by the Content-Type', async () => {
+    expect(await fetchArticleHtml(`${baseUrl}/latin1`)).toContain('Élysée : la réforme des retraites adoptée');
+    expect(await fetchArticleHtml(`${baseUrl}/cp1252`)).toBe('<p>Une amende de 2 €</p>');
+  });
+
+  it('sends at most 2 requests at once to the same host', async () => {
+    const pages = await Promise.all(Array.from({ length: 6 }, (_, i) => fetchArticleHtml(`${baseUrl}/slow-${i}`)));
+
+    expect(pages).toEqual(Array.from({ length: 6 }, (_, i) => `<p>/slow-${i}</p>`));
+    expect(maxActive).toBe(2);
+  });
+});
+
+describe('fetchArticleMetadata', () => {
+  it('extracts og:image, title and description', async () => {
+    expect(await fetchArticleMetadata(`${baseUrl}/article`)).toEqual({
+      image: `${baseUrl}/images/bamako.jpg`,
+      title: 'Le Mali suspend les partis politiques',
+      description: 'Les autorités de transition invoquent des menaces sur l’ordre public.',
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Article Metadata - Récupère le HTML d'un article et en extrait les métadonnées
+ * (og:image, titre, description) via metascraper.
+ *
+ * Utilisé par curate.ts quand le flux RSS ne fournit pas d'image ou une
+ * description trop pauvre. Les options (timeout, taille max, user-agent)
+ * sont injectables pour pouvoir tester contre un serveur HTTP local.
+ */
+
+import iconv from 'iconv-lite';
+import metascraper from 'metascraper';
+import metascraperImage from 'metascraper-image';
+import metascraperTitle from 'metascraper-title';
+import metascraperDescription from 'metascraper-description';
+
+export interface ArticleMetadata {
+  image: string | null;
+  title: string | null;
+  description: string | null;
+}
+
+export interface FetchHtmlOptions {
+  /** Timeout par tentative (ms) */
+  timeoutMs?: number;
+  /** Nombre de tentatives supplémentaires après un échec réseau */
+  retries?: number;
+  /** Taille maximale du HTML lu (octets), le reste est ignoré */
+  maxBytes?: number;
+  userAgent?: string;
+}
+
+const DEFAULT_OPTIONS: Required<FetchHtmlOptions> = {
+  timeoutMs: 8000,
+  retries: 1,
+  maxBytes: 1024 * 1024,
+  userAgent: 'Avactu/1.0 (News Aggregator)',
+};
+
+/**
+ * Nombre maximum de requêtes simultanées vers un même domaine
+ * (évite de se faire bloquer par les sites qui publient beaucoup d'articles)
+ */
+const MAX_CONCURRENT_PER_HOST = 2;
+
+const scraper = metascraper([
+  metascraperImage(),
+  metascraperTitle(),
+  metascraperDescription(),
+]);
+
+/**
+ * Limiteur de concurrence par domaine : chaque host a sa propre file d'attente
+ */
+const hostSlots = new Map<string, { active: number; queue: (() => void)[] }>();
+
+async function withHostLimit<T>(host: string, fn: () => Promise<T>): Promise<T> {
+  const slot = hostSlots.get(host) ?? { active: 0, queue: [] };
+  hostSlots.set(host, slot);
+
+  if (slot.active >= MAX_CONCURRENT_PER_HOST) {
+    // Le slot est transmis directement par la requête qui se termine
+    await new Promise<void>((resolve) => slot.queue.push(resolve));
+  } else {
+    slot.active++;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    const next = slot.queue.shift();
+    if (next) {
+      next();
+    } else {
+      slot.active--;
+      if (slot.active === 0) hostSlots.delete(host);
+    }
+  }
+}
+
+/**
+ * Décode le HTML selon le charset annoncé par le Content-Type (ISO-8859-1,
+ * Windows-1252...), en UTF-8 si absent ou inconnu
+ */
+function decodeHtml(buffer: Buffer, contentType: string): string {
+  const label = contentType.match(/charset=["']?([\w.:-]+)/i)?.[1];
+  if (!label) return buffer.toString('utf-8');
+
+  try {
+    // TextDecoder resolves labels as browsers do (iso-8859-1 is read as windows-1252), but
+    // Node 20 decodes windows-1252 as plain latin1: iconv-lite does the decoding
+    const encoding = new TextDecoder(label).encoding;
+    if (iconv.encodingExists(encoding)) return iconv.decode(buffer, encoding);
+  } catch {
+    // Unknown label: fall through to UTF-8
+  }
+  return buffer.toString('utf-8');
+}
+
+/**
+ * Lit le corps de la réponse en s'arrêtant à maxBytes, décodé selon son charset
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  await reader.cancel().catch(() => {});
+
+  const buffer = Buffer.concat(chunks).subarray(0, maxBytes);
+  return decodeHtml(buffer, response.headers.get('content-type') || '');
+}
+
+/**
+ * Télécharge le HTML d'un article (timeout, retries, taille plafonnée,
+ * concurrence limitée par domaine). Retourne null si la page n'est pas du HTML
+ * ou n'a pas pu être récupérée.
+ */
+export async function fetchArticleHtml(url: string, options: FetchHtmlOptions = {}): Promise<string | null> {
+  const { timeoutMs, retries, maxBytes, userAgent } = { ...DEFAULT_OPTIONS, ...options };
+
+  let host: string;
+  try {
+    host = new URL(url).host;
+  } catch {
+    return null;
+  }
+
+  return withHostLimit(host, async () => {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: {
+            'User-Agent': userAgent,
+            'Accept': 'text/html,application/xhtml+xml',
+          },
+        });
+
+        // 4xx : inutile de réessayer
+        if (response.status >= 400 && response.status < 500) return null;
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType && !contentType.includes('html')) return null;
+
+        return await readCapped(response, maxBytes);
+      } catch {
+        if (attempt < retries) {
+          await new Promise(r => setTimeout(r, 1000 * (attempt + 1)));
+          continue;
+        }
+        return null;
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+    return null;
+  });
+}
+
+/**
+ * Extrait les métadonnées (og:image, titre, description) d'un HTML déjà téléchargé
+ */
+export async function extractMetadata(html: string, url: string): Promise<ArticleMetadata> {
+  const metadata = await scraper({ html, url });
+  return {
+    image: metadata.image || null,
+    title: metadata.title || null,
+    description: metadata.description || null,
+  };
+}
+
+/**
+ * Récupère et extrait les métadonnées d'un article. Retourne null en cas d'échec.
+ */
+export async function fetchArticleMetadata(url: string, options: FetchHtmlOptions = {}): Promise<ArticleMetadata | null> {
+  const html = await fetchArticleHtml(url, options);
+  if (!html) return null;
+
+  try {
+    return await extractMetadata(html, url);
+  } catch {
+    return null;
+  }
+}
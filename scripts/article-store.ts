@@ -0,0 +1,165 @@
+/**
+ * Article Store - Archive persistante des articles curés
+ *
+ * Stockage append-only, partitionné par jour de publication :
+ *   data/articles/YYYY-MM-DD.jsonl (un article JSON par ligne)
+ *
+ * La clé est l'id généré par curate.ts (`YYYY-MM-DD-<hash url>`), dont le
+ * préfixe donne directement la partition. Un article déjà archivé n'est
+ * jamais réécrit : un flux en panne ne fait donc pas disparaître le
+ * matériel des jours précédents, et cluster/synthesize peuvent remonter
+ * sur plusieurs semaines.
+ *
+ * Optionnellement, les nouveaux articles sont recopiés dans la table
+ * Supabase `articles` (voir supabase/migrations/add_articles_table.sql).
+ */
+
+import { readFileSync, appendFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createClient } from '@supabase/supabase-js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const STORE_DIR = join(__dirname, '..', 'data', 'articles');
+
+/**
+ * Champs minimaux requis pour archiver un article
+ */
+export interface StoredArticle {
+  id: string;
+  source: string;
+  category: string;
+  publishedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Partition (YYYY-MM-DD) d'un article, déduite de son id
+ */
+function partitionOf(article: StoredArticle): string {
+  const match = article.id.match(/^(\d{4}-\d{2}-\d{2})-/);
+  return match ? match[1] : new Date(article.publishedAt).toISOString().split('T')[0];
+}
+
+function partitionPath(date: string, dir: string): string {
+  return join(dir, `${date}.jsonl`);
+}
+
+/**
+ * Lit une partition. Les lignes corrompues (écriture interrompue) sont ignorées.
+ */
+function readPartition<T extends StoredArticle>(date: string, dir: string): T[] {
+  const path = partitionPath(date, dir);
+  if (!existsSync(path)) return [];
+
+  const articles: T[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      articles.push(JSON.parse(line));
+    } catch {
+      console.warn(`   ⚠ Ligne illisible ignorée dans ${path}`);
+    }
+  }
+  return articles;
+}
+
+/**
+ * Ajoute des articles à l'archive. Les ids déjà présents sont ignorés.
+ * Retourne les articles réellement ajoutés.
+ */
+export function appendArticles<T extends StoredArticle>(articles: T[], dir = STORE_DIR): T[] {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const byPartition = new Map<string, T[]>();
+  for (const article of articles) {
+    const date = partitionOf(article);
+    if (!byPartition.has(date)) byPartition.set(date, []);
+    byPartition.get(date)!.push(article);
+  }
+
+  const added: T[] = [];
+  for (const [date, candidates] of byPartition) {
+    const knownIds = new Set(readPartition(date, dir).map(a => a.id));
+    const fresh: T[] = [];
+    for (const article of candidates) {
+      if (knownIds.has(article.id)) continue;
+      knownIds.add(article.id);
+      fresh.push(article);
+    }
+    if (fresh.length === 0) continue;
+
+    appendFileSync(
+      partitionPath(date, dir),
+      fresh.map(a => JSON.stringify(a)).join('\n') + '\n',
+      'utf-8'
+    );
+    added.push(...fresh);
+  }
+
+  return added;
+}
+
+/**
+ * Lit les articles publiés dans [since, until], dédupliqués par id
+ */
+export function readArticles<T extends StoredArticle>(since: Date, until: Date, dir = STORE_DIR): T[] {
+  if (!existsSync(dir)) return [];
+
+  const firstDay = new Date(since.getTime() - DAY_MS).toISOString().split('T')[0];
+  const lastDay = new Date(until.getTime() + DAY_MS).toISOString().split('T')[0];
+
+  const partitions = readdirSync(dir)
+    .filter(f => f.endsWith('.jsonl'))
+    .map(f => f.replace('.jsonl', ''))
+    .filter(date => date >= firstDay && date <= lastDay)
+    .sort();
+
+  const seen = new Set<string>();
+  const articles: T[] = [];
+  for (const date of partitions) {
+    for (const article of readPartition<T>(date, dir)) {
+      if (seen.has(article.id)) continue;
+      const time = new Date(article.publishedAt).getTime();
+      if (time < since.getTime() || time > until.getTime()) continue;
+      seen.add(article.id);
+      articles.push(article);
+    }
+  }
+
+  return articles;
+}
+
+/**
+ * Recopie des articles dans la table Supabase `articles` (no-op sans credentials).
+ * Les ids existants sont ignorés, comme dans l'archive locale.
+ */
+export async function mirrorToSupabase(articles: StoredArticle[]): Promise<void> {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey || articles.length === 0) return;
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const rows = articles.map(a => ({
+    id: a.id,
+    source: a.source,
+    category: a.category,
+    published_at: a.publishedAt,
+    data: a,
+  }));
+
+  const { error } = await supabase
+    .from('articles')
+    .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) {
+    console.warn(`   ⚠ Miroir Supabase échoué: ${error.message}`);
+  } else {
+    console.log(`   ☁ ${rows.length} articles recopiés dans Supabase`);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Build Language Profiles - Entraîne le modèle de détection de langue
+ *
+ * Lit config/language-samples/<langue>.txt et écrit config/language-profiles.json
+ * (utilisé par language-detect.ts).
+ *
+ * Usage: npm run build-language-profiles
+ */
+
+import { readFileSync, writeFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { buildProfiles, PROFILES_PATH } from './language-detect.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const SAMPLES_DIR = join(__dirname, '..', 'config', 'language-samples');
+
+function main(): void {
+  console.log('🔤 AVACTU - Profils de langue');
+  console.log('==============================');
+
+  const samples: Record<string, string> = {};
+  for (const file of readdirSync(SAMPLES_DIR).filter(f => f.endsWith('.txt')).sort()) {
+    const language = file.replace('.txt', '');
+    samples[language] = readFileSync(join(SAMPLES_DIR, file), 'utf-8');
+  }
+
+  const profiles = buildProfiles(samples);
+  for (const [language, { total, ngrams }] of Object.entries(profiles.languages)) {
+    console.log(`   ${language}: ${total} n-grammes (${Object.keys(ngrams).length} distincts)`);
+  }
+
+  writeFileSync(PROFILES_PATH, JSON.stringify(profiles) + '\n', 'utf-8');
+  console.log(`\n✅ Sauvegardé: ${PROFILES_PATH}`);
+}
+
+main();
@@ -0,0 +1,91 @@
+/**
+ * Build Topic Model - Entraîne le classifieur thématique
+ *
+ * Lit config/topic-samples/<thème>.txt (un exemple par ligne, lignes « # »
+ * ignorées) et écrit config/topic-model.json (utilisé par topic-classifier.ts).
+ *
+ * Avant l'entraînement final, une validation croisée (CROSS_VALIDATION_FOLDS
+ * plis) affiche précision et rappel par thème pour juger de l'effet d'une
+ * modification des exemples.
+ *
+ * Usage: npm run build-topic-model
+ */
+
+import { readFileSync, writeFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { classifyTopic, trainTopicModel, TOPIC_MODEL_PATH, type TopicSample } from './topic-classifier.js';
+import { detectLanguage } from './language-detect.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const SAMPLES_DIR = join(__dirname, '..', 'config', 'topic-samples');
+
+const CROSS_VALIDATION_FOLDS = 5;
+
+function loadSamples(): TopicSample[] {
+  const samples: TopicSample[] = [];
+  for (const file of readdirSync(SAMPLES_DIR).filter(f => f.endsWith('.txt')).sort()) {
+    const topic = file.replace('.txt', '');
+    const lines = readFileSync(join(SAMPLES_DIR, file), 'utf-8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'));
+    for (const text of lines) {
+      samples.push({ topic, text, language: detectLanguage(text).language });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Validation croisée : chaque exemple est classé par un modèle entraîné sans lui
+ */
+function crossValidate(samples: TopicSample[]): void {
+  const topics = [...new Set(samples.map(s => s.topic))];
+  const stats = new Map(topics.map(topic => [topic, { truePositives: 0, predicted: 0, actual: 0 }]));
+  let correct = 0;
+
+  for (let fold = 0; fold < CROSS_VALIDATION_FOLDS; fold++) {
+    const test = samples.filter((_, i) => i % CROSS_VALIDATION_FOLDS === fold);
+    const model = trainTopicModel(samples.filter((_, i) => i % CROSS_VALIDATION_FOLDS !== fold));
+
+    for (const sample of test) {
+      const { topic } = classifyTopic(sample.text, sample.language, model);
+      stats.get(sample.topic)!.actual++;
+      stats.get(topic)!.predicted++;
+      if (topic === sample.topic) {
+        stats.get(topic)!.truePositives++;
+        correct++;
+      }
+    }
+  }
+
+  const percent = (value: number, total: number) => (total > 0 ? `${Math.round((value / total) * 100)}%` : '-');
+  console.log(`\n📏 Validation croisée (${CROSS_VALIDATION_FOLDS} plis) : ${percent(correct, samples.length)} d'exemples bien classés`);
+  for (const [topic, { truePositives, predicted, actual }] of stats) {
+    console.log(`   ${topic.padEnd(14)} précision ${percent(truePositives, predicted).padStart(4)} · rappel ${percent(truePositives, actual).padStart(4)}`);
+  }
+}
+
+function main(): void {
+  console.log('🏷  AVACTU - Modèle thématique');
+  console.log('==============================');
+
+  const samples = loadSamples();
+  crossValidate(samples);
+
+  const model = trainTopicModel(samples);
+  console.log('');
+  for (const topic of model.topics) {
+    const examples = samples.filter(s => s.topic === topic).length;
+    const terms = Object.values(model.weights).filter(weights => (weights[topic] || 0) > 0).length;
+    console.log(`   ${topic}: ${examples} exemples (${terms} termes indicatifs)`);
+  }
+
+  writeFileSync(TOPIC_MODEL_PATH, JSON.stringify(model) + '\n', 'utf-8');
+  console.log(`\n✅ Sauvegardé: ${TOPIC_MODEL_PATH}`);
+}
+
+main();
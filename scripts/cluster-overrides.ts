@@ -0,0 +1,230 @@
+/**
+ * Cluster Overrides - Corrections éditoriales du clustering et journal des fusions
+ *
+ * config/cluster-overrides.json permet d'imposer ce que le calcul ne voit pas :
+ *
+ *   {
+ *     "mustLink":   [{ "name": "iran-meme-sujet", "between": [{ "articleId": "2026-08-21-cc6f63d4" }, { "urlPattern": "lemonde\\.fr/international/.+iran" }] }],
+ *     "cannotLink": [{ "name": "tiktok-vs-iran", "between": [{ "entity": "company:bytedance" }, { "entity": "country:IR" }] }],
+ *     "pin":        [{ "name": "suivi-ebola", "match": { "urlPattern": "ebola" } }],
+ *     "ban":        [{ "name": "pas-de-meteo", "match": { "entity": "org:wmo" } }]
+ *   }
+ *
+ * Un sélecteur désigne des articles par identifiant (`articleId`), motif
+ * d'URL (`urlPattern`, expression régulière insensible à la casse) ou entité
+ * (`entity`, clé de text-features.ts : "country:IR", "org:un", "company:bytedance").
+ *
+ *   - mustLink   : les articles des deux côtés sont réunis dans un même cluster
+ *   - cannotLink : les articles des deux côtés ne sont jamais réunis, ni
+ *                  considérés comme doublons à la sélection
+ *   - pin        : un cluster contenant un article désigné est toujours retenu
+ *   - ban        : un cluster contenant un article désigné n'est jamais retenu
+ *
+ * Un article désigné des deux côtés d'une règle cannotLink est ignoré pour
+ * cette règle (un article citant l'Iran et TikTok n'est séparé de rien).
+ * Les liens ne s'appliquent qu'au sein d'une catégorie (le clustering est
+ * fait catégorie par catégorie).
+ *
+ * Chaque fusion automatique (classification, doublons écartés à la sélection)
+ * et chaque application d'une correction est écrite dans data/cluster-log.json,
+ * à côté de clustered-articles.json.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const CLUSTER_OVERRIDES_PATH = join(__dirname, '..', 'config', 'cluster-overrides.json');
+export const CLUSTER_LOG_PATH = join(__dirname, '..', 'data', 'cluster-log.json');
+
+export interface ArticleSelector {
+  articleId?: string;
+  urlPattern?: string;
+  entity?: string;
+}
+
+export interface LinkRule {
+  name: string;
+  between: [ArticleSelector, ArticleSelector];
+}
+
+export interface ClusterRule {
+  name: string;
+  match: ArticleSelector;
+}
+
+export interface ClusterOverrides {
+  mustLink: LinkRule[];
+  cannotLink: LinkRule[];
+  pin: ClusterRule[];
+  ban: ClusterRule[];
+}
+
+/**
+ * Article tel que vu par les sélecteurs (entités : clés de text-features.ts)
+ */
+export interface SelectableArticle {
+  id: string;
+  url: string;
+  entities: Set<string>;
+}
+
+export interface LoggedArticle {
+  id: string;
+  title: string;
+}
+
+export type ClusterLogEvent =
+  | {
+      type: 'merge';
+      category: string;
+      /** Similarité moyenne entre les deux groupes fusionnés */
+      similarity: number;
+      /** true si la fusion est imposée par une règle mustLink */
+      forced: boolean;
+      left: LoggedArticle[];
+      right: LoggedArticle[];
+    }
+  | { type: 'must-link' | 'cannot-link'; rule: string; category: string; pairs: [string, string][] }
+  | { type: 'pin' | 'ban'; rule: string; cluster: string; topic: string }
+  | { type: 'duplicate'; cluster: string; topic: string; duplicateOf: string; reason: string };
+
+export interface ClusterLog {
+  generatedAt: string;
+  events: ClusterLogEvent[];
+}
+
+const SELECTOR_KEYS = ['articleId', 'urlPattern', 'entity'];
+
+const EMPTY_OVERRIDES: ClusterOverrides = { mustLink: [], cannotLink: [], pin: [], ban: [] };
+
+function validateSelector(value: unknown, label: string): string[] {
+  if (typeof value !== 'object' || value === null) return [`${label}: sélecteur attendu`];
+  const keys = Object.keys(value);
+  if (keys.length !== 1 || !SELECTOR_KEYS.includes(keys[0])) {
+    return [`${label}: exactement un de ${SELECTOR_KEYS.join(' | ')} attendu`];
+  }
+  const selector = value as ArticleSelector;
+  const text = selector.articleId ?? selector.urlPattern ?? selector.entity;
+  if (typeof text !== 'string' || text.trim().length === 0) return [`${label}.${keys[0]}: chaîne non vide attendue`];
+  if (selector.urlPattern !== undefined) {
+    try {
+      new RegExp(selector.urlPattern, 'i');
+    } catch (error) {
+      return [`${label}.urlPattern: expression régulière invalide (${(error as Error).message})`];
+    }
+  }
+  if (selector.entity !== undefined && !/^[a-z]+:[\w-]+$/i.test(selector.entity)) {
+    return [`${label}.entity: clé d'entité attendue (ex: "country:IR", "org:un")`];
+  }
+  return [];
+}
+
+/**
+ * Charge et vérifie les corrections (fichier absent = aucune correction)
+ */
+export function loadClusterOverrides(path = CLUSTER_OVERRIDES_PATH): ClusterOverrides {
+  if (!existsSync(path)) return EMPTY_OVERRIDES;
+
+  const raw = JSON.parse(readFileSync(path, 'utf-8')) as Partial<ClusterOverrides>;
+  const overrides: ClusterOverrides = { ...EMPTY_OVERRIDES, ...raw };
+  const errors: string[] = [];
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in EMPTY_OVERRIDES)) errors.push(`${key}: clé inconnue (attendues : mustLink, cannotLink, pin, ban)`);
+  }
+
+  for (const kind of ['mustLink', 'cannotLink', 'pin', 'ban'] as const) {
+    const rules = overrides[kind] as unknown;
+    if (!Array.isArray(rules)) {
+      errors.push(`${kind}: liste de règles attendue`);
+      continue;
+    }
+    rules.forEach((rule: Record<string, unknown>, index) => {
+      const label = `${kind}[${index}]`;
+      if (typeof rule?.name !== 'string' || rule.name.trim().length === 0) errors.push(`${label}.name: champ requis`);
+      if (kind === 'mustLink' || kind === 'cannotLink') {
+        if (!Array.isArray(rule?.between) || rule.between.length !== 2) {
+          errors.push(`${label}.between: deux sélecteurs attendus`);
+        } else {
+          rule.between.forEach((selector: unknown, side: number) => errors.push(...validateSelector(selector, `${label}.between[${side}]`)));
+        }
+      } else {
+        errors.push(...validateSelector(rule?.match, `${label}.match`));
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`${path} invalide (${errors.length} erreur(s)):\n  - ${errors.join('\n  - ')}`);
+  }
+  return overrides;
+}
+
+const patterns = new Map<string, RegExp>();
+
+export function matchesSelector(article: SelectableArticle, selector: ArticleSelector): boolean {
+  if (selector.articleId !== undefined) return article.id === selector.articleId;
+  if (selector.entity !== undefined) return article.entities.has(selector.entity);
+
+  const source = selector.urlPattern!;
+  const pattern = patterns.get(source) ?? new RegExp(source, 'i');
+  patterns.set(source, pattern);
+  return pattern.test(article.url);
+}
+
+/**
+ * Paires d'index d'articles désignées par chaque règle de lien (règles
+ * sans paire omises). `exclusive` : ignorer les articles désignés des deux côtés.
+ */
+export function linkPairs(
+  articles: SelectableArticle[],
+  rules: LinkRule[],
+  exclusive: boolean
+): { rule: string; pairs: [number, number][] }[] {
+  return rules
+    .map(rule => {
+      let [left, right] = rule.between.map(selector =>
+        articles.flatMap((article, index) => (matchesSelector(article, selector) ? [index] : []))
+      );
+      if (exclusive) {
+        [left, right] = [left.filter(i => !right.includes(i)), right.filter(j => !left.includes(j))];
+      }
+      const pairs = left.flatMap(i => right.filter(j => j !== i).map(j => [i, j] as [number, number]));
+      return { rule: rule.name, pairs };
+    })
+    .filter(({ pairs }) => pairs.length > 0);
+}
+
+/**
+ * Première règle (pin ou ban) désignant un des articles d'un cluster
+ */
+export function matchingClusterRule(articles: SelectableArticle[], rules: ClusterRule[]): ClusterRule | null {
+  return rules.find(rule => articles.some(article => matchesSelector(article, rule.match))) || null;
+}
+
+/**
+ * Règle cannotLink séparant deux groupes d'articles, null sinon
+ */
+export function areSeparated(left: SelectableArticle[], right: SelectableArticle[], rules: LinkRule[]): string | null {
+  for (const rule of rules) {
+    const [a, b] = rule.between;
+    const onlyA = (x: SelectableArticle) => matchesSelector(x, a) && !matchesSelector(x, b);
+    const onlyB = (x: SelectableArticle) => matchesSelector(x, b) && !matchesSelector(x, a);
+    if ((left.some(onlyA) && right.some(onlyB)) || (left.some(onlyB) && right.some(onlyA))) {
+      return rule.name;
+    }
+  }
+  return null;
+}
+
+export function saveClusterLog(log: ClusterLog, path = CLUSTER_LOG_PATH): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(log, null, 2), 'utf-8');
+}
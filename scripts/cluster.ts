@@ -2,50 +2,72 @@
  * Clustering Script - Regroupe les articles par sujet similaire
  *
  * Algorithme amélioré :
- * - Extraction d'entités nommées (pays, villes, personnalités)
+ * - Extraction d'entités nommées (pays, dirigeants, organisations : voir gazetteer.ts)
  * - Matching cross-langue FR/EN
- * - Filtre anti-sport/divertissement
- * - TF-IDF + entités pour meilleure similarité
+ * (le filtrage sport/people est fait à la curation, voir source-rules.ts et topic-classifier.ts)
+ * - TF-IDF sur titre (renforcé), description et corps : racines FR/EN,
+ *   bigrammes et entités (voir text-features.ts)
  *
- * Usage: npm run cluster
+ * Regroupement : classification hiérarchique ascendante (voir article-clustering.ts
+ * et clustering.ts), seuils ajustables en ligne de commande. Qualité mesurée
+ * sur des jours annotés : npm run eval:cluster (voir eval-cluster.ts).
+ *
+ * Importance : score explicable par facteurs pondérés (voir importance.ts),
+ * détaillé dans `importanceBreakdown`.
+ *
+ * Corrections éditoriales (réunir, séparer, épingler, écarter) dans
+ * config/cluster-overrides.json ; fusions et corrections appliquées sont
+ * journalisées dans data/cluster-log.json (voir cluster-overrides.ts).
+ *
+ * Les clusters retenus sont rattachés aux fils d'actualité des jours
+ * précédents (`threadId`, voir story-threads.ts).
+ *
+ * Usage: npm run cluster [-- --merge-threshold=0.3 --max-cluster-size=10 --importance-config=config/importance.json]
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { entityKeys } from './text-features.js';
+import { parseClusteringOptions } from './clustering.js';
+import {
+  articleTerms,
+  buildTfIdf,
+  clusterArticles,
+  cosineSimilarity,
+  entitySimilarity,
+  selectableArticle,
+  type ArticleCluster,
+  type RawArticle,
+} from './article-clustering.js';
+import {
+  areSeparated,
+  loadClusterOverrides,
+  matchingClusterRule,
+  saveClusterLog,
+  CLUSTER_LOG_PATH,
+  type ClusterLogEvent,
+  type ClusterOverrides,
+} from './cluster-overrides.js';
+import { assignThreads, findThread, loadThreads, pruneThreads, saveThreads } from './story-threads.js';
+import { formatBreakdown, loadImportanceConfig, IMPORTANCE_CONFIG_PATH } from './importance.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Types
-interface RawArticle {
-  id: string;
-  title: string;
-  description: string;
-  url: string;
-  imageUrl: string | null;
-  source: string;
-  category: 'geopolitique' | 'tech' | 'eco';
-  publishedAt: string;
-  fetchedAt: string;
-}
-
 interface RawArticlesInput {
   generatedAt: string;
+  /** Fenêtre de curation (absente des fichiers antérieurs) */
+  window?: { since: string; until: string };
   articleCount: number;
   articles: RawArticle[];
 }
 
-interface ArticleCluster {
-  id: string;
-  topic: string;
-  category: 'geopolitique' | 'tech' | 'eco';
-  importance: number;
-  articles: RawArticle[];
-}
-
 interface ClusteredOutput {
   generatedAt: string;
+  /** Fin de la fenêtre de curation : jour de l'édition et des fils (repris par synthesize.ts) */
+  referenceTime: string;
   clusterCount: number;
   clusters: ArticleCluster[];
 }
@@ -60,332 +82,113 @@ const TARGET_CLUSTERS = {
   eco: 1,
 };
 
-// Mots-clés sport à exclure (UNIQUEMENT le sport pur, pas la culture/cinéma)
-const EXCLUDED_KEYWORDS = new Set([
-  'football', 'soccer', 'cricket', 'rugby', 'tennis', 'basketball', 'golf',
-  'match', 'goal', 'scored', 'league', 'championship', 'tournament',
-  'premier league', 'la liga', 'serie a', 'bundesliga', 'champions league',
-  'world cup', 'olympic', 'olympics', 'athlete', 'player', 'coach',
-  'team', 'club', 'stadium', 'referee', 'penalty', 'offside', 'halftime',
-  'mbappe', 'mbappé', 'ronaldo', 'messi', 'haaland', 'real madrid', 'barcelona',
-  'manchester', 'liverpool', 'arsenal', 'chelsea', 'psg', 'bayern',
-  't20', 'icc', 'odi', 'test match', 'wicket', 'batsman', 'bowler',
-  'kardashian', 'taylor swift', 'beyonce', 'reality show',
-]);
-
-// Entités géopolitiques importantes (pays, régions, organisations)
-const GEO_ENTITIES: Record<string, string[]> = {
-  'ukraine': ['ukraine', 'ukrainian', 'ukrainien', 'kiev', 'kyiv', 'kharkiv', 'zelensky', 'zelenskyy'],
-  'russia': ['russia', 'russian', 'russie', 'russe', 'moscow', 'moscou', 'kremlin', 'putin', 'poutine'],
-  'usa': ['united states', 'états-unis', 'etats-unis', 'usa', 'american', 'américain', 'washington', 'white house', 'maison blanche', 'trump', 'biden'],
-  'china': ['china', 'chinese', 'chine', 'chinois', 'beijing', 'pékin', 'xi jinping'],
-  'israel': ['israel', 'israeli', 'israël', 'israélien', 'tel aviv', 'jerusalem', 'netanyahu'],
-  'palestine': ['palestine', 'palestinian', 'palestinien', 'gaza', 'hamas', 'west bank', 'cisjordanie'],
-  'iran': ['iran', 'iranian', 'iranien', 'tehran', 'téhéran', 'khamenei'],
-  'syria': ['syria', 'syrian', 'syrie', 'syrien', 'damascus', 'damas', 'assad', 'sdf', 'kurde', 'kurdish'],
-  'france': ['france', 'french', 'français', 'paris', 'macron', 'élysée'],
-  'germany': ['germany', 'german', 'allemagne', 'allemand', 'berlin', 'scholz'],
-  'uk': ['united kingdom', 'royaume-uni', 'britain', 'british', 'britannique', 'london', 'londres', 'starmer', 'sunak'],
-  'eu': ['european union', 'union européenne', 'brussels', 'bruxelles', 'eu', 'ue'],
-  'nato': ['nato', 'otan', 'alliance atlantique'],
-  'un': ['united nations', 'nations unies', 'onu', 'un'],
-  'minneapolis': ['minneapolis', 'minnesota', 'border patrol', 'ice', 'immigration'],
-  'greenland': ['greenland', 'groenland', 'denmark', 'danemark'],
-  'panama': ['panama', 'canal'],
-  'taiwan': ['taiwan', 'taïwan', 'taipei'],
-  'north_korea': ['north korea', 'corée du nord', 'pyongyang', 'kim jong'],
-  'sudan': ['sudan', 'soudan', 'khartoum'],
-  'myanmar': ['myanmar', 'birmanie', 'burma'],
-  'algeria': ['algeria', 'algérie', 'alger', 'algiers'],
-  'iraq': ['iraq', 'irak', 'baghdad', 'bagdad'],
-  'india': ['india', 'indian', 'inde', 'indien', 'indienne', 'new delhi', 'delhi', 'modi'],
-  'japan': ['japan', 'japanese', 'japon', 'japonais', 'tokyo'],
-  'south_korea': ['south korea', 'corée du sud', 'seoul', 'séoul'],
-  'australia': ['australia', 'australian', 'australie', 'australien', 'canberra', 'sydney'],
-  'brazil': ['brazil', 'brazilian', 'brésil', 'brésilien', 'brasilia', 'lula'],
-  'mexico': ['mexico', 'mexican', 'mexique', 'mexicain'],
-  'turkey': ['turkey', 'turkish', 'turquie', 'turc', 'ankara', 'erdogan'],
-  'saudi_arabia': ['saudi', 'saoudite', 'riyadh', 'riyad', 'mbs'],
-  'chile': ['chile', 'chilean', 'chili', 'chilien', 'santiago'],
-  'oman': ['oman', 'omani', 'omanais', 'muscat', 'mascate'],
-};
-
-// Stop words FR + EN
-const STOP_WORDS = new Set([
-  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'en', 'au', 'aux',
-  'à', 'ce', 'ces', 'cette', 'que', 'qui', 'quoi', 'dont', 'où', 'sur', 'sous',
-  'par', 'pour', 'avec', 'sans', 'dans', 'est', 'sont', 'ont', 'être', 'avoir',
-  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
-  'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-  'have', 'has', 'had', 'will', 'would', 'could', 'should', 'may', 'might',
-  'this', 'that', 'these', 'those', 'it', 'its', 'as', 'after', 'before',
-  'news', 'live', 'update', 'breaking', 'latest', 'new', 'nouveau', 'nouvelle',
-]);
-
-/**
- * Check if article is about sports/entertainment (should be excluded)
- */
-function isSportOrEntertainment(text: string): boolean {
-  const lower = text.toLowerCase();
-  let matchCount = 0;
-
-  for (const keyword of EXCLUDED_KEYWORDS) {
-    if (lower.includes(keyword)) {
-      matchCount++;
-      if (matchCount >= 2) return true; // Need at least 2 matches to be sure
-    }
-  }
-  return false;
-}
-
-/**
- * Extract geo-political entities from text
- */
-function extractEntities(text: string): Set<string> {
-  const lower = text.toLowerCase();
-  const entities = new Set<string>();
-
-  for (const [entity, keywords] of Object.entries(GEO_ENTITIES)) {
-    for (const keyword of keywords) {
-      if (lower.includes(keyword)) {
-        entities.add(entity);
-        break;
-      }
-    }
-  }
-
-  return entities;
-}
-
-/**
- * Tokenize and clean text
- */
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .split(/\s+/)
-    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
-}
-
-/**
- * Build TF-IDF vectors
- */
-function buildTfIdf(documents: string[][]): Map<string, number>[] {
-  const docFreq = new Map<string, number>();
-  const numDocs = documents.length;
-
-  for (const doc of documents) {
-    const uniqueTerms = new Set(doc);
-    for (const term of uniqueTerms) {
-      docFreq.set(term, (docFreq.get(term) || 0) + 1);
-    }
-  }
-
-  return documents.map((doc) => {
-    const termFreq = new Map<string, number>();
-    for (const term of doc) {
-      termFreq.set(term, (termFreq.get(term) || 0) + 1);
-    }
-
-    const tfidf = new Map<string, number>();
-    for (const [term, tf] of termFreq) {
-      const df = docFreq.get(term) || 1;
-      const idf = Math.log(numDocs / df);
-      tfidf.set(term, tf * idf);
-    }
-
-    return tfidf;
-  });
-}
-
-/**
- * Calculate cosine similarity
- */
-function cosineSimilarity(vec1: Map<string, number>, vec2: Map<string, number>): number {
-  let dotProduct = 0;
-  let norm1 = 0;
-  let norm2 = 0;
-
-  for (const [term, weight] of vec1) {
-    norm1 += weight * weight;
-    if (vec2.has(term)) {
-      dotProduct += weight * vec2.get(term)!;
-    }
-  }
-
-  for (const weight of vec2.values()) {
-    norm2 += weight * weight;
-  }
-
-  if (norm1 === 0 || norm2 === 0) return 0;
-  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
-}
-
-/**
- * Calculate entity-based similarity (Jaccard)
- */
-function entitySimilarity(entities1: Set<string>, entities2: Set<string>): number {
-  if (entities1.size === 0 || entities2.size === 0) return 0;
-
-  const intersection = new Set([...entities1].filter(x => entities2.has(x)));
-  const union = new Set([...entities1, ...entities2]);
-
-  return intersection.size / union.size;
-}
+const round2 = (value: number) => Math.round(value * 100) / 100;
 
 /**
- * Combined similarity score
- * Uses text similarity as primary signal. Entity overlap only boosts when
- * there are 2+ shared SPECIFIC entities (avoids false matches on generic
- * countries like "france" or "usa" appearing in unrelated articles).
+ * Sum of the term counts of several articles
  */
-function combinedSimilarity(
-  tfidf1: Map<string, number>,
-  tfidf2: Map<string, number>,
-  entities1: Set<string>,
-  entities2: Set<string>
-): number {
-  const textSim = cosineSimilarity(tfidf1, tfidf2);
-  const intersection = new Set([...entities1].filter(x => entities2.has(x)));
-
-  // Only boost if 2+ specific entities overlap (strong topical signal)
-  if (intersection.size >= 2) {
-    const entSim = entitySimilarity(entities1, entities2);
-    return Math.max(textSim, textSim * 0.5 + entSim * 0.5);
-  }
-
-  // Otherwise, text similarity only
-  return textSim;
-}
-
-/**
- * Cluster articles
- */
-function clusterArticles(articles: RawArticle[]): ArticleCluster[] {
-  // Filter out sports/entertainment
-  const filtered = articles.filter(a => {
-    const text = `${a.title} ${a.description}`;
-    const exclude = isSportOrEntertainment(text);
-    if (exclude) {
-      console.log(`   ⚠ Exclu (sport/divertissement): ${a.title.slice(0, 50)}...`);
-    }
-    return !exclude;
-  });
-
-  console.log(`   → ${articles.length - filtered.length} articles sport/divertissement exclus`);
-
-  // Prepare data — use TITLES ONLY for clustering (more topic-specific than full text)
-  const documents = filtered.map((a) => tokenize(a.title));
-  const entities = filtered.map((a) => extractEntities(a.title));
-  const vectors = buildTfIdf(documents);
-
-  // Greedy clustering with centroid comparison
-  const SIMILARITY_THRESHOLD = 0.3;
-  const MAX_CLUSTER_SIZE = 6; // Keep clusters focused
-  const clusters: ArticleCluster[] = [];
-  const assigned = new Set<number>();
-
-  for (let i = 0; i < filtered.length; i++) {
-    if (assigned.has(i)) continue;
-
-    const clusterIndices = [i];
-    assigned.add(i);
-
-    for (let j = i + 1; j < filtered.length; j++) {
-      if (assigned.has(j)) continue;
-      if (clusterIndices.length >= MAX_CLUSTER_SIZE) break;
-
-      // Compare against SEED article only (prevents topic drift)
-      const seedSim = combinedSimilarity(vectors[i], vectors[j], entities[i], entities[j]);
-
-      if (seedSim >= SIMILARITY_THRESHOLD) {
-        clusterIndices.push(j);
-        assigned.add(j);
-      }
+function mergeTermCounts(counts: Map<string, number>[]): Map<string, number> {
+  const merged = new Map<string, number>();
+  for (const doc of counts) {
+    for (const [term, count] of doc) {
+      merged.set(term, (merged.get(term) || 0) + count);
     }
-
-    const clusterArticles = clusterIndices.map(idx => filtered[idx]);
-
-    const mainArticle = clusterArticles[0];
-    const uniqueSources = new Set(clusterArticles.map((a) => a.source));
-
-    // Calculate importance
-    const numArticles = clusterArticles.length;
-    const numSources = uniqueSources.size;
-    const recency = Math.max(...clusterArticles.map((a) => new Date(a.publishedAt).getTime()));
-    const hoursAgo = (Date.now() - recency) / (1000 * 60 * 60);
-
-    // Higher weight for multi-source clusters
-    let importance = numArticles * 1.5 + numSources * 3;
-    if (hoursAgo < 6) importance += 2;
-    else if (hoursAgo < 12) importance += 1;
-    importance = Math.min(10, Math.max(1, Math.round(importance)));
-
-    clusters.push({
-      id: `cluster-${clusters.length + 1}`,
-      topic: mainArticle.title.slice(0, 80),
-      category: mainArticle.category,
-      importance,
-      articles: clusterArticles,
-    });
   }
-
-  return clusters;
+  return merged;
 }
 
 /**
- * Check if two clusters are about the same topic (to avoid duplicates)
+ * Check if two clusters are about the same topic (to avoid duplicates).
+ * Returns the reason (logged in cluster-log.json), null if distinct.
  */
-function areSameTopic(cluster1: ArticleCluster, cluster2: ArticleCluster): boolean {
+function areSameTopic(cluster1: ArticleCluster, cluster2: ArticleCluster): string | null {
   const text1 = cluster1.articles.map(a => `${a.title} ${a.description}`).join(' ');
   const text2 = cluster2.articles.map(a => `${a.title} ${a.description}`).join(' ');
 
-  const entities1 = extractEntities(text1);
-  const entities2 = extractEntities(text2);
+  const entities1 = entityKeys(text1);
+  const entities2 = entityKeys(text2);
 
   // High entity overlap = same topic
   const entSim = entitySimilarity(entities1, entities2);
-  if (entSim >= 0.5) return true;
+  if (entSim >= 0.5) return `entités communes (${round2(entSim)})`;
 
   // Check for shared articles (same URL)
   const urls1 = new Set(cluster1.articles.map(a => a.url));
   const urls2 = new Set(cluster2.articles.map(a => a.url));
   const sharedUrls = [...urls1].filter(u => urls2.has(u)).length;
-  if (sharedUrls > 0) return true;
+  if (sharedUrls > 0) return `${sharedUrls} URL(s) commune(s)`;
 
   // Text similarity check (catches same-topic clusters with non-geo entities like person names)
-  const tokens1 = tokenize(text1);
-  const tokens2 = tokenize(text2);
-  const vectors = buildTfIdf([tokens1, tokens2]);
+  const vectors = buildTfIdf([
+    mergeTermCounts(cluster1.articles.map(a => articleTerms(a))),
+    mergeTermCounts(cluster2.articles.map(a => articleTerms(a))),
+  ]);
   const textSim = cosineSimilarity(vectors[0], vectors[1]);
-  if (textSim >= 0.4) return true;
+  if (textSim >= 0.4) return `texte similaire (${round2(textSim)})`;
 
-  return false;
+  return null;
 }
 
 /**
- * Select best clusters
+ * Highest importance first, ties broken by the unrounded score
  */
-function selectBestClusters(clusters: ArticleCluster[]): ArticleCluster[] {
+function byImportance(a: ArticleCluster, b: ArticleCluster): number {
+  return b.importance - a.importance || (b.importanceBreakdown?.total ?? 0) - (a.importanceBreakdown?.total ?? 0);
+}
+
+/**
+ * Select best clusters. Pinned clusters (config/cluster-overrides.json) come
+ * first and count towards their category target, banned ones are skipped.
+ */
+function selectBestClusters(
+  clusters: ArticleCluster[],
+  overrides: ClusterOverrides,
+  events: ClusterLogEvent[]
+): ArticleCluster[] {
   const selected: ArticleCluster[] = [];
+  const selectable = new Map(clusters.map(c => [c, c.articles.map(selectableArticle)]));
+
+  const candidates = clusters.filter(cluster => {
+    const ban = matchingClusterRule(selectable.get(cluster)!, overrides.ban);
+    if (!ban) return true;
+    events.push({ type: 'ban', rule: ban.name, cluster: cluster.id, topic: cluster.topic });
+    console.log(`   ⊘ Écarté (règle "${ban.name}"): ${cluster.topic.slice(0, 40)}...`);
+    return false;
+  });
 
   // Prioritize multi-source clusters
-  const multiSource = clusters
+  const multiSource = candidates
     .filter(c => new Set(c.articles.map(a => a.source)).size > 1)
-    .sort((a, b) => b.importance - a.importance);
+    .sort(byImportance);
 
-  const singleSource = clusters
+  const singleSource = candidates
     .filter(c => new Set(c.articles.map(a => a.source)).size === 1)
-    .sort((a, b) => b.importance - a.importance);
+    .sort(byImportance);
 
-  // Helper to check if cluster is duplicate of already selected
+  // Helper to check if cluster is duplicate of already selected (unless a cannot-link rule keeps them apart)
+  const reported = new Set<ArticleCluster>();
   const isDuplicate = (candidate: ArticleCluster): boolean => {
-    return selected.some(s => areSameTopic(s, candidate));
+    for (const s of selected) {
+      const reason = areSameTopic(s, candidate);
+      if (!reason || areSeparated(selectable.get(s)!, selectable.get(candidate)!, overrides.cannotLink)) continue;
+      if (!reported.has(candidate)) {
+        reported.add(candidate);
+        events.push({ type: 'duplicate', cluster: candidate.id, topic: candidate.topic, duplicateOf: s.topic, reason });
+        console.log(`   ⚠ Doublon ignoré (${reason}): ${candidate.topic.slice(0, 40)}...`);
+      }
+      return true;
+    }
+    return false;
   };
 
+  for (const cluster of [...multiSource, ...singleSource]) {
+    const pin = matchingClusterRule(selectable.get(cluster)!, overrides.pin);
+    if (!pin) continue;
+    selected.push(cluster);
+    events.push({ type: 'pin', rule: pin.name, cluster: cluster.id, topic: cluster.topic });
+    console.log(`   📌 Épinglé (règle "${pin.name}"): ${cluster.topic.slice(0, 40)}...`);
+  }
+
   // Sort by category and importance
   const byCategory = {
     geopolitique: [...multiSource, ...singleSource].filter((c) => c.category === 'geopolitique'),
@@ -395,14 +198,13 @@ function selectBestClusters(clusters: ArticleCluster[]): ArticleCluster[] {
 
   for (const [category, target] of Object.entries(TARGET_CLUSTERS)) {
     const available = byCategory[category as keyof typeof byCategory];
-    let added = 0;
+    let added = selected.filter(c => c.category === category).length;
     for (const cluster of available) {
       if (added >= target) break;
+      if (selected.includes(cluster)) continue;
       if (!isDuplicate(cluster)) {
         selected.push(cluster);
         added++;
-      } else {
-        console.log(`   ⚠ Doublon ignoré: ${cluster.topic.slice(0, 40)}...`);
       }
     }
   }
@@ -419,7 +221,7 @@ function selectBestClusters(clusters: ArticleCluster[]): ArticleCluster[] {
     }
   }
 
-  return selected.sort((a, b) => b.importance - a.importance);
+  return selected.sort(byImportance);
 }
 
 /**
@@ -438,16 +240,30 @@ function cluster(): void {
   const rawData: RawArticlesInput = JSON.parse(readFileSync(RAW_ARTICLES_PATH, 'utf-8'));
   console.log(`📚 ${rawData.articleCount} articles bruts chargés\n`);
 
-  console.log('🔍 Filtrage et clustering par catégorie...');
+  const args = process.argv.slice(2);
+  const options = parseClusteringOptions(args);
+  const importanceConfigPath = args.find(arg => arg.startsWith('--importance-config='))?.split('=')[1] ?? IMPORTANCE_CONFIG_PATH;
+  const importanceConfig = loadImportanceConfig(importanceConfigPath);
+  const overrides = loadClusterOverrides();
+  const overrideCount = overrides.mustLink.length + overrides.cannotLink.length + overrides.pin.length + overrides.ban.length;
+  if (overrideCount > 0) {
+    console.log(`✍️  ${overrideCount} correction(s) éditoriale(s) (config/cluster-overrides.json)`);
+  }
+  const events: ClusterLogEvent[] = [];
+  console.log(`🔍 Clustering par catégorie (fusion ≥ ${options.mergeThreshold}, max ${options.maxClusterSize} articles)...`);
   const startTime = Date.now();
 
   // Cluster each category separately to avoid mixing unrelated articles
+  const referenceTime = new Date(rawData.window?.until ?? rawData.generatedAt).getTime();
+  const threadTime = new Date(referenceTime);
+  const threads = loadThreads();
+  const expired = pruneThreads(threads, threadTime);
   const categories = [...new Set(rawData.articles.map(a => a.category))];
   const allClusters: ArticleCluster[] = [];
   for (const cat of categories) {
     const catArticles = rawData.articles.filter(a => a.category === cat);
     console.log(`\n   📂 ${cat.toUpperCase()} (${catArticles.length} articles)`);
-    const catClusters = clusterArticles(catArticles);
+    const catClusters = clusterArticles(catArticles, referenceTime, options, importanceConfig, threads, overrides, events);
     allClusters.push(...catClusters);
   }
 
@@ -465,19 +281,48 @@ function cluster(): void {
     const sources = [...new Set(cluster.articles.map((a) => a.source))];
     console.log(`   [${cluster.category.slice(0, 4).toUpperCase()}] ${cluster.topic.slice(0, 50)}...`);
     console.log(`      → ${cluster.articles.length} articles: ${sources.join(' + ')}`);
+    const { cohesion, nearestRejected } = cluster.diagnostics || {};
+    if (nearestRejected) {
+      console.log(`      ≈ cohésion ${cohesion}, plus proche rejeté (${nearestRejected.similarity}): ${nearestRejected.title.slice(0, 50)}...`);
+    }
   }
 
-  const selectedClusters = selectBestClusters(allClusters);
+  const selectedClusters = selectBestClusters(allClusters, overrides, events);
   console.log(`\n🎯 ${selectedClusters.length} clusters sélectionnés`);
 
   for (const cluster of selectedClusters) {
     const sources = [...new Set(cluster.articles.map((a) => a.source))];
     const multi = sources.length > 1 ? '✓' : ' ';
     console.log(`   ${multi} [${cluster.category.slice(0, 4)}] (${cluster.importance}/10) ${cluster.topic.slice(0, 45)}...`);
+    if (cluster.importanceBreakdown) {
+      console.log(`        ${formatBreakdown(cluster.importanceBreakdown)}`);
+    }
+  }
+
+  // Link selected clusters to story threads from previous runs
+  const threadMatches = assignThreads(
+    threads,
+    selectedClusters.map(c => ({ key: c.id, title: c.topic, category: c.category, features: c._threadFeatures! })),
+    threadTime
+  );
+  saveThreads(threads);
+
+  console.log(`\n🧵 Fils d'actualité (${threads.threads.length} suivis${expired > 0 ? `, ${expired} expirés` : ''}) :`);
+  for (const cluster of selectedClusters) {
+    const match = threadMatches.get(cluster.id)!;
+    cluster.threadId = match.threadId;
+    delete cluster._threadFeatures;
+    if (match.continued) {
+      const thread = findThread(threads, match.threadId)!;
+      console.log(`   ↪ ${cluster.topic.slice(0, 45)}... suite du fil ouvert le ${thread.days[0]} (${match.similarity}, ${thread.stories.length} stories)`);
+    } else {
+      console.log(`   ✦ ${cluster.topic.slice(0, 45)}... nouveau fil`);
+    }
   }
 
   const output: ClusteredOutput = {
     generatedAt: new Date().toISOString(),
+    referenceTime: threadTime.toISOString(),
     clusterCount: selectedClusters.length,
     clusters: selectedClusters,
   };
@@ -488,6 +333,7 @@ function cluster(): void {
   }
 
   writeFileSync(CLUSTERED_PATH, JSON.stringify(output, null, 2), 'utf-8');
+  saveClusterLog({ generatedAt: output.generatedAt, events });
 
   // Summary
   console.log('\n===================================================');
@@ -511,7 +357,10 @@ function cluster(): void {
 
   console.log(`\nArticles utilisés: ${totalArticles}`);
   console.log(`Clusters multi-sources: ${multiSourceCount}/${selectedClusters.length}`);
+  const merges = events.filter(e => e.type === 'merge').length;
+  console.log(`Journal: ${merges} fusions, ${events.length - merges} doublons et corrections appliquées`);
   console.log(`\n✅ Sauvegardé: ${CLUSTERED_PATH}`);
+  console.log(`📝 Journal: ${CLUSTER_LOG_PATH}`);
 }
 
 cluster();
@@ -0,0 +1,179 @@
+/**
+ * Clustering - Classification hiérarchique ascendante (average linkage)
+ *
+ * Part d'une matrice de similarité entre articles (calculée par cluster.ts)
+ * et fusionne à chaque étape les deux groupes dont la similarité moyenne
+ * entre articles est la plus haute, tant qu'elle dépasse `mergeThreshold`.
+ * Contrairement à l'agrégation gloutonne autour d'un article « graine »,
+ * le résultat ne dépend pas de l'ordre des articles (hors égalités, départagées
+ * par index) et une grosse actualité n'est pas coupée en plusieurs clusters.
+ *
+ * Des contraintes éditoriales peuvent s'ajouter aux seuils (voir
+ * cluster-overrides.ts) : paires à réunir d'office (must-link) et paires à ne
+ * jamais réunir (cannot-link).
+ *
+ * Chaque cluster est accompagné de diagnostics pour ajuster les seuils :
+ * cohésion interne et plus proche article rejeté.
+ */
+
+export interface ClusteringOptions {
+  /** Similarité moyenne minimale entre deux groupes pour les fusionner (0-1) */
+  mergeThreshold: number;
+  /** Nombre maximum d'articles par cluster */
+  maxClusterSize: number;
+}
+
+// Seuil calibré sur la représentation multi-champs de text-features.ts
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  mergeThreshold: 0.25,
+  maxClusterSize: 10,
+};
+
+export interface ClusterDiagnostics {
+  /** Similarité moyenne entre les paires d'articles du cluster (null pour un article seul) */
+  cohesion: number | null;
+  /** Article hors du cluster le plus proche (similarité moyenne aux membres) */
+  nearestRejected: { index: number; similarity: number } | null;
+}
+
+export interface ClusteringConstraints {
+  /** Paires d'éléments réunies avant tout calcul (sans limite de taille) */
+  mustLink?: [number, number][];
+  /** Paires d'éléments jamais réunies (must-link prioritaire en cas de conflit) */
+  cannotLink?: [number, number][];
+}
+
+export interface MergeStep {
+  left: number[];
+  right: number[];
+  /** Similarité moyenne entre les deux groupes au moment de la fusion */
+  similarity: number;
+  /** true pour une fusion imposée par une contrainte must-link */
+  forced: boolean;
+}
+
+/**
+ * Regroupe les éléments d'une matrice de similarité symétrique.
+ * Retourne les clusters sous forme d'index triés, ordonnés par premier index.
+ * `onMerge` reçoit chaque fusion, dans l'ordre (journal d'audit).
+ */
+export function agglomerativeClusters(
+  similarity: number[][],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS,
+  constraints: ClusteringConstraints = {},
+  onMerge?: (step: MergeStep) => void
+): number[][] {
+  const n = similarity.length;
+  const members: number[][] = Array.from({ length: n }, (_, i) => [i]);
+  const active = new Set<number>(members.keys());
+
+  // Sum of pairwise similarities between groups (Lance-Williams update for average linkage)
+  const linkSum: number[][] = similarity.map(row => [...row]);
+
+  const groupOf = Array.from({ length: n }, (_, i) => i);
+  const merge = (a: number, b: number, forced: boolean) => {
+    onMerge?.({
+      left: members[a],
+      right: members[b],
+      similarity: linkSum[a][b] / (members[a].length * members[b].length),
+      forced,
+    });
+    for (const c of active) {
+      if (c === a || c === b) continue;
+      linkSum[a][c] += linkSum[b][c];
+      linkSum[c][a] = linkSum[a][c];
+    }
+    members[a] = [...members[a], ...members[b]].sort((x, y) => x - y);
+    for (const i of members[b]) groupOf[i] = a;
+    active.delete(b);
+  };
+
+  for (const [i, j] of constraints.mustLink || []) {
+    const [a, b] = [groupOf[i], groupOf[j]].sort((x, y) => x - y);
+    if (a !== b) merge(a, b, true);
+  }
+
+  const cannotLink = new Set<string>();
+  for (const [i, j] of constraints.cannotLink || []) {
+    if (groupOf[i] === groupOf[j]) continue; // Already linked by a must-link constraint
+    cannotLink.add(`${i},${j}`).add(`${j},${i}`);
+  }
+  const isForbidden = (a: number, b: number) =>
+    cannotLink.size > 0 && members[a].some(i => members[b].some(j => cannotLink.has(`${i},${j}`)));
+
+  for (;;) {
+    let best: { a: number; b: number; average: number } | null = null;
+
+    for (const a of active) {
+      for (const b of active) {
+        if (b <= a) continue;
+        if (members[a].length + members[b].length > options.maxClusterSize) continue;
+
+        const average = linkSum[a][b] / (members[a].length * members[b].length);
+        if (average < options.mergeThreshold || isForbidden(a, b)) continue;
+        // Ties resolved by lowest indexes (Set iteration follows index order)
+        if (!best || average > best.average) {
+          best = { a, b, average };
+        }
+      }
+    }
+
+    if (!best) break;
+
+    // Merge b into a
+    merge(best.a, best.b, false);
+  }
+
+  return [...active].map(i => members[i]).sort((x, y) => x[0] - y[0]);
+}
+
+function averageSimilarity(index: number, group: number[], similarity: number[][]): number {
+  return group.reduce((sum, j) => sum + similarity[index][j], 0) / group.length;
+}
+
+/**
+ * Cohésion d'un cluster et article rejeté le plus proche
+ */
+export function clusterDiagnostics(group: number[], similarity: number[][]): ClusterDiagnostics {
+  let pairSum = 0;
+  let pairs = 0;
+  for (let x = 0; x < group.length; x++) {
+    for (let y = x + 1; y < group.length; y++) {
+      pairSum += similarity[group[x]][group[y]];
+      pairs++;
+    }
+  }
+
+  const inGroup = new Set(group);
+  let nearestRejected: ClusterDiagnostics['nearestRejected'] = null;
+  for (let i = 0; i < similarity.length; i++) {
+    if (inGroup.has(i)) continue;
+    const value = averageSimilarity(i, group, similarity);
+    if (!nearestRejected || value > nearestRejected.similarity) {
+      nearestRejected = { index: i, similarity: value };
+    }
+  }
+
+  return {
+    cohesion: pairs > 0 ? pairSum / pairs : null,
+    nearestRejected,
+  };
+}
+
+/**
+ * Read clustering thresholds from CLI flags (`--merge-threshold=`, `--max-cluster-size=`)
+ */
+export function parseClusteringOptions(args: string[]): ClusteringOptions {
+  const valueOf = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const options = { ...DEFAULT_CLUSTERING_OPTIONS };
+
+  const threshold = valueOf('merge-threshold');
+  if (threshold !== undefined) options.mergeThreshold = parseFloat(threshold);
+  const maxSize = valueOf('max-cluster-size');
+  if (maxSize !== undefined) options.maxClusterSize = parseInt(maxSize, 10);
+
+  if (!(options.mergeThreshold > 0 && options.mergeThreshold <= 1) || !(options.maxClusterSize >= 1)) {
+    throw new Error(`Seuils de clustering invalides: ${JSON.stringify(options)}`);
+  }
+  return options;
+}
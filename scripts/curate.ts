@@ -1,35 +1,61 @@
 /**
  * Curation Script - Récupère les articles des dernières 48h depuis les flux RSS
  *
- * Usage: npx tsx scripts/curate.ts
+ * Les articles sont archivés dans data/articles/ (append-only, voir article-store.ts) ;
+ * data/raw-articles.json est une vue de la fenêtre (48h par défaut) calculée depuis l'archive.
+ *
+ * Usage: npx tsx scripts/curate.ts [--retry-disabled] [--full-text] [--window=72h] [--since=...] [--until=...] [--backfill]
+ * (options de fenêtre : voir time-window.ts)
+ *
+ * --full-text télécharge chaque article pour en extraire le corps (bodyText,
+ * voir article-body.ts) ; sans cette option seule l'accroche RSS est conservée.
+ *
+ * Les items hors périmètre (sport, people...) sont écartés par les règles de
+ * config/sources.json puis par le classifieur thématique (topic-classifier.ts).
+ *
+ * La santé de chaque flux (ETag, échecs consécutifs, latence...) est suivie dans
+ * data/feed-health.json ; les flux en échec répété sont désactivés (voir feed-health.ts).
  */
 
 import { createHash } from 'crypto';
-import Parser from 'rss-parser';
-import metascraper from 'metascraper';
-import metascraperImage from 'metascraper-image';
-import metascraperTitle from 'metascraper-title';
-import metascraperDescription from 'metascraper-description';
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { isValidEditorialImage } from './image-validation.js';
+import { fetchArticleHtml, extractMetadata } from './article-metadata.js';
+import { extractArticleBody } from './article-body.js';
+import { appendArticles, readArticles, mirrorToSupabase } from './article-store.js';
+import {
+  loadFeedHealth,
+  saveFeedHealth,
+  getFeedHealth,
+  recordSuccess,
+  recordFailure,
+  MAX_CONSECUTIVE_FAILURES,
+  type FeedHealth,
+  type FeedHealthRecords,
+} from './feed-health.js';
+import { detectLanguage } from './language-detect.js';
+import { canonicalizeUrl, urlKey, groupNearDuplicates } from './dedup.js';
+import { getFeedAdapter, type FeedAdapter } from './feed-adapters.js';
+import { parseTimeWindow, resolvePublicationDate, describeWindow, type TimeWindow } from './time-window.js';
+import {
+  parseSourcesConfig,
+  type Source,
+  type SourcesConfig,
+  type SourceTier,
+  type SourceLeaning,
+  type FilterRule,
+  type TopicFilter,
+} from './source-schema.js';
+import { applyRules } from './source-rules.js';
+import { classifyTopic, topicMargin } from './topic-classifier.js';
 
 // ES Module __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Types
-interface Source {
-  name: string;
-  url: string;
-  category: 'geopolitique' | 'tech' | 'eco';
-}
-
-interface SourcesConfig {
-  sources: Source[];
-}
-
 interface RawArticle {
   id: string;
   title: string;
@@ -40,78 +66,58 @@ interface RawArticle {
   category: 'geopolitique' | 'tech' | 'eco';
   publishedAt: string;
   fetchedAt: string;
+  // Detected language of title + description (ISO 639-1)
+  language?: string;
+  languageConfidence?: number;
+  // Source metadata (from config/sources.json)
+  sourceLanguage?: string;
+  sourceCountry?: string;
+  sourceTier?: SourceTier;
+  sourceLeaning?: SourceLeaning;
+  sourceWeight?: number;
+  // Other outlets that published a near-identical copy (syndicated wire story)
+  syndicatedBy?: string[];
+  // Cleaned article body (--full-text only, capped at MAX_BODY_LENGTH)
+  bodyText?: string;
+  paywalled?: boolean;
+}
+
+interface FetchOptions {
+  window: TimeWindow;
+  // Download each article page to extract its body (--full-text)
+  fullText: boolean;
+  // Global filtering rules from config/sources.json
+  rules: FilterRule[];
+  // Off-topic themes (sport, people...) from config/sources.json
+  topicFilter?: TopicFilter;
 }
 
 interface RawArticlesOutput {
   generatedAt: string;
+  window: { since: string; until: string };
   articleCount: number;
   articles: RawArticle[];
 }
 
-// Initialize RSS parser
-const parser = new Parser({
-  timeout: 10000,
-  headers: {
-    'User-Agent': 'Avactu/1.0 (News Aggregator)',
-  },
-});
-
-// Initialize metascraper for og:image extraction
-const scraper = metascraper([
-  metascraperImage(),
-  metascraperTitle(),
-  metascraperDescription(),
-]);
-
 // Constants
-const HOURS_48 = 48 * 60 * 60 * 1000;
+const FEED_TIMEOUT_MS = 10000;
+const USER_AGENT = 'Avactu/1.0 (News Aggregator)';
+// Langues acceptées par défaut (surchargeables par source via acceptedLanguages)
+const ACCEPTED_LANGUAGES = ['fr', 'en'];
+// En dessous de ce seuil, la détection est jugée incertaine : l'article est gardé
+const MIN_LANGUAGE_CONFIDENCE = 0.6;
+const MAX_DESCRIPTION_LENGTH = 500;
+// En dessous de cette longueur, la description RSS est enrichie via les métadonnées de la page
+const MIN_DESCRIPTION_LENGTH = 80;
 const CONFIG_PATH = join(__dirname, '..', 'config', 'sources.json');
 const OUTPUT_PATH = join(__dirname, '..', 'data', 'raw-articles.json');
 
 /**
- * Load sources configuration
+ * Load and validate sources configuration
  */
-function loadSources(): Source[] {
+function loadSourcesConfig(): SourcesConfig {
   const configContent = readFileSync(CONFIG_PATH, 'utf-8');
-  const config: SourcesConfig = JSON.parse(configContent);
-  return config.sources;
-}
-
-/**
- * Check if article is within the last 48 hours
- */
-function isWithin48Hours(dateString: string | undefined): boolean {
-  if (!dateString) return false;
-
-  const articleDate = new Date(dateString);
-  const now = new Date();
-  const diff = now.getTime() - articleDate.getTime();
-
-  return diff <= HOURS_48 && diff >= 0;
-}
-
-/**
- * Detect non-French titles (Spanish, Portuguese, Italian, etc.)
- * English titles are allowed (BBC, Reuters, The Verge, Ars Technica)
- */
-function isNonFrenchTitle(title: string): boolean {
-  const lower = title.toLowerCase();
-  const words = lower.split(/\s+/);
-
-  // Spanish/Portuguese markers (words that almost never appear in French or English)
-  const nonFrenchMarkers = [
-    'según', 'también', 'pero', 'sobre', 'gobierno', 'países', 'puede', 'tiene',
-    'está', 'hace', 'entre', 'como', 'desde', 'hasta', 'después', 'antes',
-    'mejor', 'todos', 'cada', 'otro', 'otra', 'otros', 'otras', 'nuevo', 'nueva',
-    'contra', 'mientras', 'ahora', 'aquí', 'donde', 'porque', 'aunque',
-    'hacia', 'según', 'através', 'ainda', 'muito', 'também', 'quando',
-    'porque', 'ainda', 'foram', 'após', 'então', 'será', 'isso',
-    'nella', 'della', 'delle', 'degli', 'questo', 'questa', 'questi', 'perché',
-    'hanno', 'sono', 'stato', 'anche', 'dopo', 'ancora', 'molto',
-  ];
-
-  const markerCount = words.filter(w => nonFrenchMarkers.includes(w)).length;
-  return markerCount >= 2;
+  return parseSourcesConfig(JSON.parse(configContent));
 }
 
 /**
@@ -125,78 +131,152 @@ function generateArticleId(url: string, publishedAt: string): string {
 }
 
 /**
- * Fetch og:image from article URL with retry
+ * Fetch feed body with conditional GET (ETag / Last-Modified).
+ * Returns a null body when the server answers 304 Not Modified.
  */
-async function fetchOgImage(url: string, retries = 1): Promise<string | null> {
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 8000);
-
-      const response = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Avactu/1.0 (News Aggregator)',
-        },
-      });
-
-      clearTimeout(timeout);
-
-      if (!response.ok) return null;
-
-      const html = await response.text();
-      const metadata = await scraper({ html, url });
-
-      return metadata.image || null;
-    } catch {
-      if (attempt < retries) {
-        await new Promise(r => setTimeout(r, 1000 * (attempt + 1)));
-        continue;
-      }
-      console.warn(`  ⚠ Could not fetch og:image for ${url}`);
-      return null;
+async function fetchFeedBody(source: Source, adapter: FeedAdapter, health: FeedHealth): Promise<{
+  body: string | null;
+  etag: string | null;
+  lastModified: string | null;
+}> {
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT, 'Accept': adapter.accept };
+  if (health.etag) headers['If-None-Match'] = health.etag;
+  if (health.lastModified) headers['If-Modified-Since'] = health.lastModified;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FEED_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(source.url, { signal: controller.signal, headers });
+
+    if (response.status === 304) {
+      return { body: null, etag: health.etag, lastModified: health.lastModified };
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
     }
+
+    return {
+      body: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  } finally {
+    clearTimeout(timeout);
   }
-  return null;
 }
 
 /**
- * Parse a single RSS feed
+ * Parse a single feed (RSS, Atom, JSON Feed or news sitemap) and update its health record
  */
-async function parseFeed(source: Source): Promise<RawArticle[]> {
-  console.log(`\n📡 Fetching: ${source.name}`);
+async function parseFeed(source: Source, health: FeedHealth, options: FetchOptions): Promise<RawArticle[]> {
+  const { window, fullText, rules, topicFilter } = options;
+  console.log(`\n📡 Fetching: ${source.name}${source.type && source.type !== 'rss' ? ` [${source.type}]` : ''}`);
+  const startTime = Date.now();
+  const adapter = getFeedAdapter(source.type);
 
   try {
-    const feed = await parser.parseURL(source.url);
+    const { body, etag, lastModified } = await fetchFeedBody(source, adapter, health);
+
+    if (body === null) {
+      recordSuccess(health, { latencyMs: Date.now() - startTime, itemCount: null });
+      console.log('   ↺ Non modifié depuis le dernier passage (304)');
+      return [];
+    }
+
+    const items = await adapter.parse(body);
     const articles: RawArticle[] = [];
     const now = new Date().toISOString();
 
-    console.log(`   Found ${feed.items?.length || 0} items`);
-
-    for (const item of feed.items || []) {
-      // Check if article is within 48 hours
-      const pubDate = item.pubDate || item.isoDate;
-      if (!isWithin48Hours(pubDate)) {
+    console.log(`   Found ${items.length} items`);
+    recordSuccess(health, {
+      latencyMs: Date.now() - startTime,
+      itemCount: items.length,
+      etag,
+      lastModified,
+    });
+
+    for (const item of items) {
+      // Check if article is within the time window (tolerates small clock skew)
+      const publishedDate = resolvePublicationDate(item.pubDate, window);
+      if (!publishedDate) {
         continue;
       }
 
-      const url = item.link || '';
-      const publishedAt = new Date(pubDate!).toISOString();
-
-      // Try to get image from feed first, then fetch og:image
-      let imageUrl = item.enclosure?.url || null;
+      // Declarative include/exclude and category rules (config/sources.json)
+      const title = item.title || 'Sans titre';
+      const decision = applyRules({ title, description: item.description, url: item.link }, source, rules);
+      if (!decision.keep) {
+        const reason = decision.rule
+          ? `règle "${decision.rule.name}" (${decision.rule.scope})`
+          : 'aucune règle include satisfaite';
+        console.log(`   ⊘ Écarté par ${reason}: ${title.slice(0, 60)}...`);
+        continue;
+      }
+      if (decision.rule) {
+        console.log(`   ↪ Catégorie ${decision.category} (règle "${decision.rule.name}"): ${title.slice(0, 50)}...`);
+      }
 
-      // Extract image from content if available
-      if (!imageUrl && item.content) {
-        const imgMatch = item.content.match(/<img[^>]+src="([^"]+)"/);
-        if (imgMatch) {
-          imageUrl = imgMatch[1];
+      // Filter out languages not accepted for this source (Spanish, German, Arabic... from Courrier International / Reuters)
+      const guess = detectLanguage(`${title} ${item.description}`);
+      const acceptedLanguages = source.acceptedLanguages || ACCEPTED_LANGUAGES;
+      const isConfident = guess.confidence >= MIN_LANGUAGE_CONFIDENCE;
+      if (isConfident && !acceptedLanguages.includes(guess.language)) {
+        console.log(`   ⊘ Langue rejetée (${guess.language}, ${Math.round(guess.confidence * 100)}%): ${title.slice(0, 60)}...`);
+        continue;
+      }
+      const language = isConfident ? guess.language : (source.language || guess.language);
+
+      // Off-topic themes predicted by the classifier (see topic-classifier.ts)
+      if (topicFilter) {
+        const prediction = classifyTopic(`${title} ${item.description}`, language);
+        const margin = topicMargin(prediction, topicFilter.exclude);
+        if (topicFilter.exclude.includes(prediction.topic) && margin >= topicFilter.minMargin) {
+          console.log(`   ⊘ Thème écarté (${prediction.topic}, ${Math.round(prediction.probability * 100)}%, +${Math.round(margin * 100)} pts): ${title.slice(0, 60)}...`);
+          continue;
         }
       }
 
-      // Fetch og:image if no image found
-      if (!imageUrl && url) {
-        imageUrl = await fetchOgImage(url);
+      const url = canonicalizeUrl(item.link);
+      const publishedAt = publishedDate.toISOString();
+
+      // Image from feed (enclosure, media:content, JSON Feed image, sitemap image:loc or <img> in content)
+      let imageUrl = item.imageUrl;
+      let description = item.description;
+
+      let bodyText: string | undefined;
+      let paywalled: boolean | undefined;
+
+      // Fetch the page if image is missing, description is too thin, or full text is requested
+      const needsMetadata = !imageUrl || description.length < MIN_DESCRIPTION_LENGTH;
+      if (url && (needsMetadata || fullText)) {
+        const html = await fetchArticleHtml(url);
+        if (!html) {
+          console.warn(`   ⚠ Page indisponible pour ${url}`);
+        } else {
+          if (needsMetadata) {
+            const metadata = await extractMetadata(html, url).catch(() => null);
+            if (!metadata) {
+              console.warn(`   ⚠ Métadonnées indisponibles pour ${url}`);
+            } else {
+              if (!imageUrl) imageUrl = metadata.image;
+              if (metadata.description && metadata.description.length > description.length) {
+                description = metadata.description;
+              }
+            }
+          }
+
+          if (fullText) {
+            const body = extractArticleBody(html);
+            bodyText = body.text || undefined;
+            paywalled = body.paywalled;
+            if (body.paywalled) {
+              console.log(`   🔒 Article payant${body.text ? ' (début seulement)' : ''}: ${title.slice(0, 50)}...`);
+            } else if (!body.text) {
+              console.warn(`   ⚠ Corps d'article non extrait pour ${url}`);
+            }
+          }
+        }
       }
 
       // Validate image: reject logos, placeholders, and generic images
@@ -205,52 +285,95 @@ async function parseFeed(source: Source): Promise<RawArticle[]> {
         imageUrl = null;
       }
 
-      // Filter out non-French titles (Spanish, Portuguese, etc. from Courrier International / Reuters)
-      const title = item.title || 'Sans titre';
-      if (isNonFrenchTitle(title)) {
-        console.log(`   ⊘ Titre non-français rejeté: ${title.slice(0, 60)}...`);
-        continue;
-      }
-
       const article: RawArticle = {
-        id: generateArticleId(url, publishedAt),
+        // Raw link, as before URL canonicalization: archived articles keep their IDs
+        id: generateArticleId(item.link, publishedAt),
         title,
-        description: item.contentSnippet || item.content?.replace(/<[^>]*>/g, '').slice(0, 500) || '',
+        description: description.slice(0, MAX_DESCRIPTION_LENGTH),
         url,
         imageUrl,
         source: source.name,
-        category: source.category,
+        category: decision.category,
         publishedAt,
         fetchedAt: now,
+        language,
+        languageConfidence: Math.round(guess.confidence * 100) / 100,
+        sourceLanguage: source.language,
+        sourceCountry: source.country,
+        sourceTier: source.tier,
+        sourceLeaning: source.leaning,
+        sourceWeight: source.weight,
+        bodyText,
+        paywalled,
       };
 
       articles.push(article);
       console.log(`   ✓ ${article.title.slice(0, 50)}...`);
+
+      if (source.maxItems && articles.length >= source.maxItems) {
+        console.log(`   ⊘ Limite de ${source.maxItems} items atteinte`);
+        break;
+      }
     }
 
-    console.log(`   → ${articles.length} articles dans les dernières 48h`);
+    console.log(`   → ${articles.length} articles dans la fenêtre`);
     return articles;
 
   } catch (error) {
-    console.error(`   ✗ Error fetching ${source.name}:`, error instanceof Error ? error.message : error);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`   ✗ Error fetching ${source.name}:`, message);
+    if (recordFailure(health, message, Date.now() - startTime)) {
+      console.error(`   ⛔ ${source.name} désactivée après ${health.consecutiveFailures} échecs consécutifs`);
+    }
     return [];
   }
 }
 
 /**
- * Remove duplicate articles based on URL
+ * Remove duplicate articles: same canonical URL, then near-identical
+ * title + description (wire story syndicated by several outlets).
+ * The earliest copy is kept and lists the other outlets in `syndicatedBy`.
  */
 function deduplicateArticles(articles: RawArticle[]): RawArticle[] {
-  const seen = new Map<string, RawArticle>();
+  const byUrl = new Map<string, RawArticle>();
 
   for (const article of articles) {
-    // Use URL as unique key
-    if (!seen.has(article.url)) {
-      seen.set(article.url, article);
+    const key = urlKey(article.url);
+    if (!byUrl.has(key)) {
+      byUrl.set(key, article);
     }
   }
 
-  return Array.from(seen.values());
+  // Earliest first so the original publication represents its group
+  const chronological = [...byUrl.values()].sort((a, b) =>
+    new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime()
+  );
+  const groups = groupNearDuplicates(chronological, a => `${a.title} ${a.description}`, a => a.title);
+
+  return groups.map(([original, ...copies]) => {
+    if (copies.length === 0) return original;
+
+    const syndicatedBy = new Set(original.syndicatedBy || []);
+    for (const copy of copies) {
+      syndicatedBy.add(copy.source);
+      for (const source of copy.syndicatedBy || []) syndicatedBy.add(source);
+    }
+    syndicatedBy.delete(original.source);
+
+    console.log(`   ⧉ Quasi-doublon fusionné: ${original.title.slice(0, 50)}... (${copies.map(c => c.source).join(', ')})`);
+
+    // A syndicated copy may have a full body where the original is paywalled or empty
+    const bodySource = original.bodyText && !original.paywalled
+      ? original
+      : copies.find(c => c.bodyText && !c.paywalled) || (original.bodyText ? original : copies.find(c => c.bodyText));
+
+    return {
+      ...original,
+      imageUrl: original.imageUrl || copies.find(c => c.imageUrl)?.imageUrl || null,
+      ...(bodySource ? { bodyText: bodySource.bodyText, paywalled: bodySource.paywalled } : {}),
+      ...(syndicatedBy.size > 0 ? { syndicatedBy: [...syndicatedBy] } : {}),
+    };
+  });
 }
 
 /**
@@ -263,25 +386,32 @@ function sortByDate(articles: RawArticle[]): RawArticle[] {
 }
 
 /**
- * Main curation function
+ * Fetch all active feeds in parallel (batches of 4 to avoid overwhelming connections)
  */
-async function curate(): Promise<void> {
-  console.log('🔍 AVACTU - Script de curation');
-  console.log('================================');
-  console.log(`📅 Date: ${new Date().toLocaleString('fr-FR')}`);
-  console.log(`⏱  Fenêtre: dernières 48 heures\n`);
-
-  // Load sources
-  const sources = loadSources();
-  console.log(`📚 ${sources.length} sources configurées`);
+async function fetchSources(
+  sources: Source[],
+  healthRecords: FeedHealthRecords,
+  options: FetchOptions
+): Promise<RawArticle[]> {
+  const retryDisabled = process.argv.includes('--retry-disabled');
+
+  const activeSources = sources.filter(source => {
+    const health = getFeedHealth(healthRecords, source.name, source.url);
+    if (health.disabled && !retryDisabled) {
+      console.log(`   ⛔ Ignorée (désactivée depuis ${health.disabledAt}): ${source.name}`);
+      return false;
+    }
+    return true;
+  });
 
-  // Fetch all feeds in parallel (batches of 4 to avoid overwhelming connections)
   const allArticles: RawArticle[] = [];
   const BATCH_SIZE = 4;
 
-  for (let i = 0; i < sources.length; i += BATCH_SIZE) {
-    const batch = sources.slice(i, i + BATCH_SIZE);
-    const results = await Promise.allSettled(batch.map(source => parseFeed(source)));
+  for (let i = 0; i < activeSources.length; i += BATCH_SIZE) {
+    const batch = activeSources.slice(i, i + BATCH_SIZE);
+    const results = await Promise.allSettled(
+      batch.map(source => parseFeed(source, getFeedHealth(healthRecords, source.name, source.url), options))
+    );
     for (const result of results) {
       if (result.status === 'fulfilled') {
         allArticles.push(...result.value);
@@ -289,13 +419,82 @@ async function curate(): Promise<void> {
     }
   }
 
-  // Deduplicate and sort
-  const uniqueArticles = deduplicateArticles(allArticles);
-  const sortedArticles = sortByDate(uniqueArticles);
+  return allArticles;
+}
+
+/**
+ * Print feed health section of the run summary
+ */
+function printFeedHealth(sources: Source[], healthRecords: FeedHealthRecords): void {
+  const sourceHealth = sources.map(source => getFeedHealth(healthRecords, source.name, source.url));
+  const disabled = sourceHealth.filter(h => h.disabled);
+  const failing = sourceHealth.filter(h => !h.disabled && h.consecutiveFailures > 0);
+  const empty = sourceHealth.filter(h => !h.disabled && h.consecutiveFailures === 0 && h.lastItemCount === 0);
+
+  console.log(`\nSanté des flux:`);
+  console.log(`  • Actifs: ${sources.length - disabled.length}/${sources.length}`);
+  for (const h of failing) {
+    console.log(`  ⚠ En échec (${h.consecutiveFailures}/${MAX_CONSECUTIVE_FAILURES}): ${h.name} — ${h.lastError}`);
+  }
+  for (const h of empty) {
+    console.log(`  ⚠ Flux vide (0 item): ${h.name}`);
+  }
+  for (const h of disabled) {
+    console.log(`  ⛔ Désactivé: ${h.name} — ${h.lastError} (dernier succès: ${h.lastSuccessAt || 'jamais'})`);
+  }
+}
+
+/**
+ * Main curation function
+ */
+async function curate(): Promise<void> {
+  const window = parseTimeWindow(process.argv.slice(2));
+
+  console.log('🔍 AVACTU - Script de curation');
+  console.log('================================');
+  console.log(`📅 Date: ${new Date().toLocaleString('fr-FR')}`);
+  console.log(`⏱  Fenêtre: ${describeWindow(window)} (${window.since.toISOString()} → ${window.until.toISOString()})`);
+  if (window.backfill) {
+    console.log('⏪ Mode backfill: relecture de l\'archive, aucun flux interrogé');
+  }
+  console.log('');
+
+  // Load sources and their health records
+  const config = loadSourcesConfig();
+  const sources = config.sources.filter(source => source.enabled !== false);
+  const healthRecords = loadFeedHealth();
+  console.log(`📚 ${sources.length} sources configurées`);
+
+  let allArticles: RawArticle[] = [];
+  let uniqueArticles: RawArticle[] = [];
+  let newArticles: RawArticle[] = [];
+
+  if (!window.backfill) {
+    allArticles = await fetchSources(sources, healthRecords, {
+      window,
+      fullText: process.argv.includes('--full-text'),
+      rules: config.rules || [],
+      topicFilter: config.topicFilter,
+    });
+
+    // Archive new articles (append-only: articles from previous runs are kept)
+    uniqueArticles = deduplicateArticles(allArticles);
+    newArticles = appendArticles(uniqueArticles);
+    await mirrorToSupabase(newArticles);
+
+    // Validators (ETag/Last-Modified) are saved only once their items are archived:
+    // if archiving fails, the next run refetches the feeds instead of getting a 304
+    saveFeedHealth(healthRecords);
+  }
+
+  // Build the window view from the store
+  const windowArticles = readArticles<RawArticle>(window.since, window.until);
+  const sortedArticles = sortByDate(deduplicateArticles(windowArticles));
 
   // Prepare output
   const output: RawArticlesOutput = {
     generatedAt: new Date().toISOString(),
+    window: { since: window.since.toISOString(), until: window.until.toISOString() },
     articleCount: sortedArticles.length,
     articles: sortedArticles,
   };
@@ -313,8 +512,12 @@ async function curate(): Promise<void> {
   console.log('\n================================');
   console.log('📊 RÉSUMÉ');
   console.log('================================');
-  console.log(`Total articles récupérés: ${allArticles.length}`);
-  console.log(`Articles uniques: ${uniqueArticles.length}`);
+  if (!window.backfill) {
+    console.log(`Total articles récupérés: ${allArticles.length}`);
+    console.log(`Articles uniques: ${uniqueArticles.length}`);
+    console.log(`Nouveaux articles archivés: ${newArticles.length}`);
+  }
+  console.log(`Articles dans la fenêtre (archive): ${sortedArticles.length}`);
   console.log(`\nPar catégorie:`);
 
   const byCategory = sortedArticles.reduce((acc, article) => {
@@ -326,6 +529,10 @@ async function curate(): Promise<void> {
   console.log(`  • Tech: ${byCategory.tech || 0}`);
   console.log(`  • Éco: ${byCategory.eco || 0}`);
 
+  if (!window.backfill) {
+    printFeedHealth(sources, healthRecords);
+  }
+
   console.log(`\n✅ Sauvegardé dans: ${OUTPUT_PATH}`);
 }
 
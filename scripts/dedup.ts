@@ -0,0 +1,193 @@
+/**
+ * Dedup - Canonicalisation d'URL et détection de quasi-doublons (SimHash)
+ *
+ * Une même dépêche reprise par France 24, RFI et Courrier International,
+ * ou la même URL avec des paramètres de tracking différents, ne doit
+ * compter qu'une fois : sinon elle gonfle l'importance des clusters.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Paramètres de tracking supprimés des URLs
+ */
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^at_/, // BBC (at_medium, at_campaign...)
+  /^xtor$/, // Le Monde, France 24 (AT Internet)
+  /^fbclid$/,
+  /^gclid$/,
+  /^mc_(cid|eid)$/,
+  /^ref$/,
+  /^ito$/,
+  /^amp$/,
+  /^outputType$/,
+];
+
+/**
+ * Distance de Hamming maximale (sur 64 bits) entre deux articles considérés comme identiques
+ */
+export const SIMHASH_MAX_DISTANCE = 8;
+
+/**
+ * Sur un texte court (titre seul, description vide), un seul mot change une
+ * grande part de l'empreinte : "droits de douane sur l'acier" et "... sur
+ * l'aluminium" sont à distance 8. En dessous de SHORT_TEXT_WORDS mots, le
+ * seuil est abaissé à SHORT_TEXT_MAX_DISTANCE.
+ */
+export const SHORT_TEXT_WORDS = 15;
+export const SHORT_TEXT_MAX_DISTANCE = 3;
+
+/**
+ * Part minimale de mots communs (Jaccard) entre les titres de deux articles fusionnés
+ */
+export const MIN_TITLE_OVERLAP = 0.5;
+
+/**
+ * Normalise une URL : host en minuscules, sans fragment, sans paramètres de
+ * tracking, sans suffixe AMP ni slash final. L'URL reste navigable.
+ * Retourne l'URL d'origine si elle n'est pas analysable.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase();
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.some(pattern => pattern.test(key))) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+
+  parsed.pathname = parsed.pathname
+    .replace(/\/amp(\/|$)/, '/')
+    .replace(/\.amp(\.html?)?$/, '$1')
+    .replace(/\/+$/, '') || '/';
+
+  return parsed.toString();
+}
+
+/**
+ * Clé de comparaison d'URL : URL canonique sans protocole ni préfixe www./amp./m.
+ * (ne sert qu'à détecter les doublons, pas à être ouverte)
+ */
+export function urlKey(url: string): string {
+  return canonicalizeUrl(url)
+    .replace(/^https?:\/\//, '')
+    .replace(/^(www|amp|m)\./, '');
+}
+
+/**
+ * Mots normalisés (sans accents, 3 lettres et plus)
+ */
+function normalizedWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2);
+}
+
+/**
+ * Tokens utilisés pour le SimHash : mots normalisés + bigrammes de mots
+ */
+function simhashTokens(text: string): string[] {
+  const words = normalizedWords(text);
+  const tokens = [...words];
+  for (let i = 0; i + 1 < words.length; i++) {
+    tokens.push(`${words[i]} ${words[i + 1]}`);
+  }
+  return tokens;
+}
+
+/**
+ * Empreinte SimHash 64 bits d'un texte
+ */
+export function simhash(text: string): bigint {
+  const weights = new Array<number>(64).fill(0);
+
+  for (const token of simhashTokens(text)) {
+    const hash = createHash('md5').update(token).digest().readBigUInt64BE(0);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let fingerprint = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) fingerprint |= 1n << BigInt(bit);
+  }
+  return fingerprint;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let x = a ^ b;
+  let count = 0;
+  while (x > 0n) {
+    count += Number(x & 1n);
+    x >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Distance maximale entre deux textes, selon le nombre de mots du plus court
+ */
+export function maxDistanceFor(wordCount: number): number {
+  return wordCount < SHORT_TEXT_WORDS ? SHORT_TEXT_MAX_DISTANCE : SIMHASH_MAX_DISTANCE;
+}
+
+/**
+ * Part de mots communs entre deux titres (Jaccard)
+ */
+export function titleOverlap(a: string, b: string): number {
+  const wordsA = new Set(normalizedWords(a));
+  const wordsB = new Set(normalizedWords(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Regroupe les éléments quasi identiques. Chaque groupe conserve l'ordre
+ * d'entrée ; le premier élément d'un groupe est son représentant.
+ * Un élément sans texte n'est jamais fusionné ; avec `titleOf`, deux
+ * éléments ne sont fusionnés que si leurs titres se recoupent
+ * (MIN_TITLE_OVERLAP).
+ */
+export function groupNearDuplicates<T>(
+  items: T[],
+  textOf: (item: T) => string,
+  titleOf?: (item: T) => string
+): T[][] {
+  const groups: { fingerprint: bigint; wordCount: number; title: string; members: T[] }[] = [];
+
+  for (const item of items) {
+    const text = textOf(item);
+    const wordCount = normalizedWords(text).length;
+    const fingerprint = simhash(text);
+    const title = titleOf ? titleOf(item) : '';
+
+    const group = wordCount === 0 ? undefined : groups.find(g =>
+      g.wordCount > 0 &&
+      hammingDistance(g.fingerprint, fingerprint) <= maxDistanceFor(Math.min(g.wordCount, wordCount)) &&
+      (!titleOf || titleOverlap(g.title, title) >= MIN_TITLE_OVERLAP)
+    );
+    if (group) {
+      group.members.push(item);
+    } else {
+      groups.push({ fingerprint, wordCount, title, members: [item] });
+    }
+  }
+
+  return groups.map(g => g.members);
+}
@@ -0,0 +1,249 @@
+/**
+ * Eval Cluster - Mesure la qualité du clustering sur des jours annotés
+ *
+ * Chaque fichier de fixtures/clustering/ est une journée d'articles bruts
+ * (format de raw-articles.json) accompagnée d'une annotation manuelle :
+ *
+ *   {
+ *     "date": "2026-08-21",
+ *     "description": "...",
+ *     "referenceTime": "2026-08-22T02:00:00.000Z",
+ *     "labels": { "<id article>": "<id sujet>", ... },
+ *     "articles": [ ... ]
+ *   }
+ *
+ * Seuls les articles couverts par plusieurs sources sont annotés : un article
+ * absent de `labels` forme un sujet à lui seul.
+ *
+ * Le clustering est celui du pipeline (article-clustering.ts, par catégorie,
+ * sans fils d'actualité), comparé à l'annotation par :
+ *   - pureté          : part des articles dans le sujet majoritaire de leur cluster
+ *   - pureté inverse  : part des articles dans le cluster majoritaire de leur sujet
+ *   - B-cubed F1      : précision/rappel moyens par article
+ *   - sujets fusionnés : sujets partageant un cluster avec un autre sujet
+ *   - sujets éclatés   : sujets répartis sur plusieurs clusters
+ *
+ * Usage: npm run eval:cluster [-- --merge-threshold=0.3 --max-cluster-size=10 --fixtures=fixtures/clustering]
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseClusteringOptions, type ClusteringOptions } from './clustering.js';
+import { clusterArticles, type RawArticle } from './article-clustering.js';
+import { loadImportanceConfig, type ImportanceConfig } from './importance.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Types
+interface ClusteringFixture {
+  date: string;
+  description?: string;
+  /** Fin de la fenêtre de curation (récence) */
+  referenceTime: string;
+  /** Article → sujet annoté */
+  labels: Record<string, string>;
+  articles: RawArticle[];
+}
+
+interface ClusteringScores {
+  articleCount: number;
+  topicCount: number;
+  clusterCount: number;
+  purity: number;
+  inversePurity: number;
+  bcubedPrecision: number;
+  bcubedRecall: number;
+  bcubedF1: number;
+  /** Sujets partageant un cluster avec un autre sujet */
+  mergedTopics: string[];
+  /** Sujets répartis sur plusieurs clusters */
+  splitTopics: string[];
+}
+
+// Constants
+const FIXTURES_DIR = join(__dirname, '..', 'fixtures', 'clustering');
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+function loadFixtures(dir: string): ClusteringFixture[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Dossier de fixtures introuvable: ${dir}`);
+  }
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const fixture = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as ClusteringFixture;
+      const ids = new Set(fixture.articles.map(a => a.id));
+      const unknown = Object.keys(fixture.labels).filter(id => !ids.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`${file}: article(s) annoté(s) absent(s) de la journée: ${unknown.join(', ')}`);
+      }
+      return fixture;
+    });
+}
+
+/**
+ * Sujet annoté d'un article (l'article seul s'il n'est pas annoté)
+ */
+function topicOf(fixture: ClusteringFixture, articleId: string): string {
+  return fixture.labels[articleId] ?? articleId;
+}
+
+/**
+ * Clusters produits par le pipeline, sous forme de listes d'ids d'articles
+ */
+function predictClusters(
+  fixture: ClusteringFixture,
+  options: ClusteringOptions,
+  importanceConfig: ImportanceConfig
+): string[][] {
+  const referenceTime = new Date(fixture.referenceTime).getTime();
+  const threads = { updatedAt: fixture.referenceTime, threads: [] };
+  const categories = [...new Set(fixture.articles.map(a => a.category))];
+
+  return categories.flatMap(category =>
+    clusterArticles(
+      fixture.articles.filter(a => a.category === category),
+      referenceTime,
+      options,
+      importanceConfig,
+      threads
+    ).map(cluster => cluster.articles.map(a => a.id))
+  );
+}
+
+/**
+ * Compare des clusters prédits à l'annotation
+ */
+function scoreClusters(clusters: string[][], topicOfArticle: (id: string) => string): ClusteringScores {
+  const clusterOf = new Map<string, number>();
+  clusters.forEach((ids, index) => ids.forEach(id => clusterOf.set(id, index)));
+
+  const topics = new Map<string, string[]>();
+  for (const id of clusterOf.keys()) {
+    const topic = topicOfArticle(id);
+    topics.set(topic, [...(topics.get(topic) || []), id]);
+  }
+
+  // Contingency table: cluster index → topic → shared articles
+  const overlap = clusters.map(ids => {
+    const counts = new Map<string, number>();
+    for (const id of ids) {
+      const topic = topicOfArticle(id);
+      counts.set(topic, (counts.get(topic) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const n = clusterOf.size;
+  const purity = overlap.reduce((sum, counts) => sum + Math.max(...counts.values()), 0) / n;
+  const inversePurity = [...topics.keys()].reduce(
+    (sum, topic) => sum + Math.max(...overlap.map(counts => counts.get(topic) || 0)),
+    0
+  ) / n;
+
+  let precision = 0;
+  let recall = 0;
+  for (const [id, index] of clusterOf) {
+    const topic = topicOfArticle(id);
+    const shared = overlap[index].get(topic)!;
+    precision += shared / clusters[index].length;
+    recall += shared / topics.get(topic)!.length;
+  }
+  precision /= n;
+  recall /= n;
+
+  const mergedTopics = [...topics.keys()].filter(topic =>
+    overlap.some(counts => counts.has(topic) && counts.size > 1)
+  );
+  const splitTopics = [...topics.keys()].filter(topic =>
+    overlap.filter(counts => counts.has(topic)).length > 1
+  );
+
+  return {
+    articleCount: n,
+    topicCount: topics.size,
+    clusterCount: clusters.length,
+    purity: round3(purity),
+    inversePurity: round3(inversePurity),
+    bcubedPrecision: round3(precision),
+    bcubedRecall: round3(recall),
+    bcubedF1: round3(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+    mergedTopics: mergedTopics.sort(),
+    splitTopics: splitTopics.sort(),
+  };
+}
+
+function printScores(scores: ClusteringScores): void {
+  console.log(`   ${scores.articleCount} articles, ${scores.topicCount} sujets annotés, ${scores.clusterCount} clusters`);
+  console.log(`   Pureté: ${scores.purity}  ·  Pureté inverse: ${scores.inversePurity}`);
+  console.log(`   B-cubed: P ${scores.bcubedPrecision}  ·  R ${scores.bcubedRecall}  ·  F1 ${scores.bcubedF1}`);
+  console.log(`   Sujets fusionnés: ${scores.mergedTopics.length}  ·  Sujets éclatés: ${scores.splitTopics.length}`);
+}
+
+/**
+ * Détail des erreurs d'une journée : clusters mêlant plusieurs sujets,
+ * sujets répartis sur plusieurs clusters
+ */
+function printErrors(fixture: ClusteringFixture, clusters: string[][], scores: ClusteringScores): void {
+  const titles = new Map(fixture.articles.map(a => [a.id, a.title]));
+  const describe = (id: string) => `${topicOf(fixture, id) === id ? '(seul)' : topicOf(fixture, id)} · ${titles.get(id)!.slice(0, 60)}`;
+
+  for (const ids of clusters) {
+    const topics = new Set(ids.map(id => topicOf(fixture, id)));
+    if (topics.size < 2) continue;
+    console.log(`   ⚠ Fusion (${topics.size} sujets) :`);
+    ids.forEach(id => console.log(`      - ${describe(id)}`));
+  }
+
+  for (const topic of scores.splitTopics) {
+    const parts = clusters
+      .filter(ids => ids.some(id => topicOf(fixture, id) === topic))
+      .map(ids => ids.filter(id => topicOf(fixture, id) === topic).length);
+    console.log(`   ⚠ Éclaté : ${topic} en ${parts.length} clusters (${parts.join(' + ')} articles)`);
+  }
+}
+
+/**
+ * Main
+ */
+function evalCluster(): void {
+  console.log('📏 AVACTU - Évaluation du clustering');
+  console.log('===================================================');
+
+  const args = process.argv.slice(2);
+  const options = parseClusteringOptions(args);
+  const fixturesDir = args.find(arg => arg.startsWith('--fixtures='))?.split('=')[1] ?? FIXTURES_DIR;
+  const importanceConfig = loadImportanceConfig();
+  const fixtures = loadFixtures(fixturesDir);
+
+  console.log(`🔍 ${fixtures.length} journées annotées (fusion ≥ ${options.mergeThreshold}, max ${options.maxClusterSize} articles)`);
+
+  // Pooled over all days (article ids are unique across fixtures)
+  const allClusters: string[][] = [];
+  const allTopics = new Map<string, string>();
+
+  for (const fixture of fixtures) {
+    console.log(`\n📅 ${fixture.date}${fixture.description ? ` - ${fixture.description}` : ''}`);
+    const clusters = predictClusters(fixture, options, importanceConfig);
+    const scores = scoreClusters(clusters, id => topicOf(fixture, id));
+    printScores(scores);
+    printErrors(fixture, clusters, scores);
+
+    allClusters.push(...clusters);
+    for (const a of fixture.articles) {
+      allTopics.set(a.id, `${fixture.date}/${topicOf(fixture, a.id)}`);
+    }
+  }
+
+  console.log('\n===================================================');
+  console.log('📊 RÉSUMÉ (toutes journées)');
+  console.log('===================================================');
+  printScores(scoreClusters(allClusters, id => allTopics.get(id)!));
+}
+
+evalCluster();
@@ -0,0 +1,112 @@
+/**
+ * Eval Topics - Calibre le filtre thématique sur un jeu de validation, hors-ligne
+ *
+ * fixtures/topics/<thème>.txt reprend le format de config/topic-samples/ (un
+ * exemple par ligne, lignes « # » ignorées) avec des titres jamais vus à
+ * l'entraînement, dont des titres de sport courts et des sujets du périmètre
+ * proches du sport ou du people (Mondial, droits TV, Taylor Swift et la Fed).
+ *
+ * Pour plusieurs valeurs de l'avance minimale (`minMargin` du `topicFilter`
+ * de config/sources.json), affiche le rappel sur les thèmes exclus et les
+ * articles du périmètre écartés à tort, puis l'effet des règles mots-clés
+ * globales (filet de sécurité appliqué avant le classifieur par curate.ts).
+ * Échoue si la valeur configurée ou les règles écartent un article du périmètre.
+ *
+ * Usage: npm run eval:topics [-- --fixtures=fixtures/topics]
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { classifyTopic, topicMargin, type TopicPrediction } from './topic-classifier.js';
+import { parseSourcesConfig, type Source } from './source-schema.js';
+import { applyRules } from './source-rules.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Constants
+const FIXTURES_DIR = join(__dirname, '..', 'fixtures', 'topics');
+const CONFIG_PATH = join(__dirname, '..', 'config', 'sources.json');
+const MARGINS = [0, 0.05, 0.1, 0.15, 0.2, 0.25, 0.3];
+
+// Global rules only: the examples are bare titles, without a source or URL
+const EVAL_SOURCE: Source = { name: 'eval:topics', url: 'https://example.invalid/', category: 'geopolitique' };
+
+interface Example {
+  topic: string;
+  text: string;
+  prediction: TopicPrediction;
+}
+
+function loadExamples(dir: string): Example[] {
+  const examples: Example[] = [];
+  for (const file of readdirSync(dir).filter(f => f.endsWith('.txt')).sort()) {
+    const topic = file.replace('.txt', '');
+    const lines = readFileSync(join(dir, file), 'utf-8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'));
+    for (const text of lines) {
+      examples.push({ topic, text, prediction: classifyTopic(text) });
+    }
+  }
+  return examples;
+}
+
+/**
+ * Main
+ */
+function evalTopics(): void {
+  console.log('🏷  AVACTU - Calibration du filtre thématique');
+  console.log('=============================================');
+
+  const fixturesDir = process.argv.slice(2).find(arg => arg.startsWith('--fixtures='))?.split('=')[1] ?? FIXTURES_DIR;
+  if (!existsSync(fixturesDir)) {
+    throw new Error(`Dossier de fixtures introuvable: ${fixturesDir}`);
+  }
+  const { topicFilter, rules = [] } = parseSourcesConfig(JSON.parse(readFileSync(CONFIG_PATH, 'utf-8')));
+  if (!topicFilter) {
+    throw new Error('Aucun topicFilter dans config/sources.json');
+  }
+
+  const { exclude, minMargin } = topicFilter;
+  const examples = loadExamples(fixturesDir);
+  const offTopic = examples.filter(e => exclude.includes(e.topic));
+  const inScope = examples.filter(e => !exclude.includes(e.topic));
+  const isExcluded = (e: Example, margin: number) =>
+    exclude.includes(e.prediction.topic) && topicMargin(e.prediction, exclude) >= margin;
+
+  console.log(`📚 ${examples.length} exemples : ${offTopic.length} à écarter (${exclude.join(', ')}), ${inScope.length} à garder`);
+  console.log('\n   avance   rappel   écartés à tort');
+  for (const margin of [...new Set([...MARGINS, minMargin])].sort((a, b) => a - b)) {
+    const recall = offTopic.filter(e => isExcluded(e, margin)).length / offTopic.length;
+    const falseExclusions = inScope.filter(e => isExcluded(e, margin)).length;
+    console.log(`   ${margin.toFixed(2).padStart(6)}   ${`${Math.round(recall * 100)}%`.padStart(6)}   ${String(falseExclusions).padStart(14)}${margin === minMargin ? '   ← config/sources.json' : ''}`);
+  }
+
+  // Keyword backstop: what the rules catch on their own, and together with the classifier
+  const byRules = (e: Example) => !applyRules({ title: e.text, description: '', url: '' }, EVAL_SOURCE, rules).keep;
+  const isFiltered = (e: Example) => byRules(e) || isExcluded(e, minMargin);
+  const recallWithRules = offTopic.filter(isFiltered).length / offTopic.length;
+  console.log(`\n🔑 Règles mots-clés : ${offTopic.filter(byRules).length} écartés seules, rappel ${Math.round(recallWithRules * 100)}% avec le classifieur (minMargin=${minMargin})`);
+
+  const describe = (e: Example) =>
+    `${e.text.slice(0, 70)} (${e.prediction.topic} ${Math.round(e.prediction.probability * 100)}%, +${Math.round(topicMargin(e.prediction, exclude) * 100)} pts)`;
+  const missed = offTopic.filter(e => !isFiltered(e));
+  const wronglyExcluded = inScope.filter(isFiltered);
+
+  console.log(`\n⊘ Non écartés avec minMargin=${minMargin} et les règles: ${missed.length}`);
+  for (const e of missed) console.log(`   - [${e.topic}] ${describe(e)}`);
+  console.log(`✗ Écartés à tort: ${wronglyExcluded.length}`);
+  for (const e of wronglyExcluded) console.log(`   - [${e.topic}] ${describe(e)}${byRules(e) ? ' par les règles' : ''}`);
+
+  if (wronglyExcluded.length > 0) process.exit(1);
+}
+
+try {
+  evalTopics();
+} catch (error) {
+  console.error('❌ Erreur fatale:', error);
+  process.exit(1);
+}
@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import { getFeedAdapter, stripHtml, type FeedType } from './feed-adapters.js';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'feeds');
+
+function parseFixture(type: FeedType, file: string) {
+  return getFeedAdapter(type).parse(readFileSync(join(FIXTURES_DIR, file), 'utf-8'));
+}
+
+describe('rss', () => {
+  it('normalizes items, with the enclosure or media:content image', async () => {
+    const items = await parseFixture('rss', 'rss.xml');
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({
+      title: 'Ukraine : Kiev et Moscou échangent des centaines de prisonniers',
+      link: 'https://www.france24.com/fr/europe/20260312-ukraine-echange-prisonniers',
+      description: 'Un nouvel échange de prisonniers a eu lieu & concerne 390 soldats de chaque camp.',
+      contentHtml: '<p>Un nouvel échange de prisonniers a eu lieu &amp; concerne <b>390</b> soldats de chaque camp.</p>',
+      imageUrl: 'https://s.france24.com/media/display/ukraine-prisonniers.jpg',
+      pubDate: 'Thu, 12 Mar 2026 08:15:00 GMT',
+    });
+    expect(items[1].imageUrl).toBe('https://s.france24.com/media/display/darfour.jpg');
+  });
+
+  it('falls back to dc:date when pubDate is missing', async () => {
+    const [, item] = await parseFixture('rss', 'rss.xml');
+    expect(new Date(item.pubDate!).toISOString()).toBe('2026-03-12T06:40:00.000Z');
+  });
+
+  it('rejects a truncated feed', async () => {
+    await expect(parseFixture('rss', 'rss-malformed.xml')).rejects.toThrow();
+  });
+});
+
+describe('atom', () => {
+  it('reads links, HTML summaries and the image of the content', async () => {
+    const items = await parseFixture('atom', 'atom.xml');
+
+    expect(items.map(item => item.link)).toEqual([
+      'https://www.theverge.com/2026/3/12/eu-antitrust-chipmaker',
+      'https://www.theverge.com/2026/3/12/apple-foldable',
+    ]);
+    expect(items[0].description).toBe('Brussels says the company abused its dominant position.');
+    expect(items[1].imageUrl).toBe('https://cdn.vox-cdn.com/foldable.jpg');
+  });
+
+  it('dates entries by published, or updated when it is the only date', async () => {
+    const [updatedOnly, published] = await parseFixture('atom', 'atom.xml');
+    expect(new Date(updatedOnly.pubDate!).toISOString()).toBe('2026-03-12T13:30:00.000Z');
+    expect(new Date(published.pubDate!).toISOString()).toBe('2026-03-12T09:00:00.000Z');
+  });
+});
+
+describe('jsonfeed', () => {
+  it('normalizes items, falling back to the id, content_html and date_modified', async () => {
+    const items = await parseFixture('jsonfeed', 'jsonfeed.json');
+
+    expect(items[0]).toEqual({
+      title: 'India is exporting its payments system',
+      link: 'https://restofworld.org/2026/india-upi-exports/',
+      description: 'Seven countries now accept UPI transfers.',
+      contentHtml: null,
+      imageUrl: 'https://restofworld.org/images/upi.jpg',
+      pubDate: '2026-03-12T07:00:00Z',
+    });
+    expect(items[1]).toMatchObject({
+      link: 'https://restofworld.org/2026/kenya-ev-motorbikes/',
+      description: "Nairobi's boda-boda riders are switching to batteries.",
+      imageUrl: 'https://restofworld.org/images/boda.jpg',
+      pubDate: '2026-03-11T18:30:00Z',
+    });
+  });
+
+  it('rejects a document without version or items', async () => {
+    await expect(parseFixture('jsonfeed', 'jsonfeed-invalid.json')).rejects.toThrow('JSON Feed invalide');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    await expect(getFeedAdapter('jsonfeed').parse('<html>Service Unavailable</html>')).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe('sitemap-news', () => {
+  it('keeps news entries only, with CDATA and entities decoded', async () => {
+    const items = await parseFixture('sitemap-news', 'sitemap-news.xml');
+
+    expect(items).toEqual([
+      {
+        title: 'Au Brésil, Lula relance la lutte contre la déforestation',
+        link: 'https://www.lemonde.fr/international/article/2026/03/12/bresil-lula-cop_123.html',
+        description: '',
+        contentHtml: null,
+        imageUrl: 'https://img.lemde.fr/2026/03/12/lula.jpg',
+        pubDate: '2026-03-12T10:05:00+01:00',
+      },
+      {
+        title: "La BCE maintient ses taux & surveille l'inflation",
+        link: 'https://www.lemonde.fr/economie/article/2026/03/12/bce-taux_456.html',
+        description: '',
+        contentHtml: null,
+        imageUrl: null,
+        // No publication_date: lastmod
+        pubDate: '2026-03-12T09:00:00+01:00',
+      },
+    ]);
+  });
+
+  it('rejects a sitemap index', async () => {
+    await expect(parseFixture('sitemap-news', 'sitemap-invalid.xml')).rejects.toThrow('Sitemap invalide');
+  });
+});
+
+describe('stripHtml', () => {
+  it('removes tags, decodes entities and collapses whitespace', () => {
+    expect(stripHtml('<p>Gaza&nbsp;:\n <b>l&#039;ONU</b> &amp; l&#x2019;UE</p>')).toBe("Gaza : l'ONU & l’UE");
+  });
+
+  it('decodes the named entities of French pages and leaves unknown ones', () => {
+    expect(stripHtml('&laquo;&nbsp;R&eacute;forme&nbsp;&raquo; &hellip; &amp;lt; &foo;')).toBe('« Réforme » … &lt; &foo;');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Feed Adapters - Lecture des différents formats de flux
+ *
+ * Chaque source déclare son format via `type` dans config/sources.json
+ * (défaut: "rss"). Un adapter transforme le corps brut de la réponse en
+ * FeedItem normalisés ; curate.ts construit ensuite les RawArticle de la
+ * même manière quel que soit le format.
+ *
+ * Formats supportés :
+ *   - rss / atom   : via rss-parser (dates Atom published/updated/dc:date incluses)
+ *   - jsonfeed     : JSON Feed 1.0 / 1.1 (https://www.jsonfeed.org/version/1.1/)
+ *   - sitemap-news : sitemap Google News (<news:news>)
+ */
+
+import Parser from 'rss-parser';
+
+export type FeedType = 'rss' | 'atom' | 'jsonfeed' | 'sitemap-news';
+
+export const FEED_TYPES: FeedType[] = ['rss', 'atom', 'jsonfeed', 'sitemap-news'];
+
+/**
+ * Item de flux normalisé, indépendant du format
+ */
+export interface FeedItem {
+  title: string;
+  link: string;
+  /** Texte brut (sans HTML) */
+  description: string;
+  /** HTML du contenu complet, si le flux le fournit */
+  contentHtml: string | null;
+  imageUrl: string | null;
+  /** Date de publication brute telle que fournie par le flux */
+  pubDate: string | undefined;
+}
+
+export interface FeedAdapter {
+  type: FeedType;
+  /** En-tête Accept envoyé lors de la récupération */
+  accept: string;
+  parse(body: string): Promise<FeedItem[]>;
+}
+
+type AtomDates = {
+  published?: string;
+  updated?: string;
+  'dc:date'?: string;
+  issued?: string;
+  modified?: string;
+  'media:content'?: { $?: { url?: string; medium?: string } };
+  'media:thumbnail'?: { $?: { url?: string } };
+};
+
+const rssParser: Parser<unknown, AtomDates> = new Parser({
+  customFields: {
+    item: ['published', 'updated', 'dc:date', 'issued', 'modified', 'media:content', 'media:thumbnail'],
+  },
+});
+
+/**
+ * Supprime les balises HTML et normalise les espaces
+ */
+export function stripHtml(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Entités nommées courantes des pages et flux francophones (&amp; est décodé en dernier)
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  quot: '"', apos: "'", lt: '<', gt: '>', nbsp: ' ',
+  laquo: '«', raquo: '»', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', ndash: '–', mdash: '—', euro: '€', oelig: 'œ', OElig: 'Œ',
+  agrave: 'à', acirc: 'â', ccedil: 'ç', eacute: 'é', egrave: 'è', ecirc: 'ê', euml: 'ë',
+  icirc: 'î', iuml: 'ï', ocirc: 'ô', ugrave: 'ù', ucirc: 'û', Eacute: 'É', Agrave: 'À',
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name] ?? entity)
+    .replace(/&amp;/g, '&');
+}
+
+function firstImageInHtml(html: string | null | undefined): string | null {
+  return html?.match(/<img[^>]+src="([^"]+)"/)?.[1] || null;
+}
+
+/**
+ * RSS 2.0 et Atom (rss-parser gère les deux)
+ */
+const rssAdapter: FeedAdapter = {
+  type: 'rss',
+  accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+  async parse(body) {
+    const feed = await rssParser.parseString(body);
+    return (feed.items || []).map(item => {
+      const mediaImage = item['media:content']?.$?.medium !== 'video' ? item['media:content']?.$?.url : undefined;
+      return {
+        title: item.title || '',
+        link: item.link || '',
+        description: item.contentSnippet || (item.content ? stripHtml(item.content) : '') || (item.summary ? stripHtml(item.summary) : ''),
+        contentHtml: item.content || null,
+        imageUrl: item.enclosure?.url || mediaImage || item['media:thumbnail']?.$?.url || firstImageInHtml(item.content),
+        // Atom feeds sometimes only carry updated / dc:date
+        pubDate: item.pubDate || item.isoDate || item.published || item['dc:date'] || item.issued || item.updated || item.modified,
+      };
+    });
+  },
+};
+
+interface JsonFeedItem {
+  id?: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+}
+
+/**
+ * JSON Feed 1.0 / 1.1
+ */
+const jsonFeedAdapter: FeedAdapter = {
+  type: 'jsonfeed',
+  accept: 'application/feed+json, application/json;q=0.9',
+  async parse(body) {
+    const feed = JSON.parse(body) as { version?: string; items?: JsonFeedItem[] };
+    if (!feed.version?.startsWith('https://jsonfeed.org/version/') || !Array.isArray(feed.items)) {
+      throw new Error('JSON Feed invalide (version ou items manquants)');
+    }
+
+    return feed.items.map(item => ({
+      title: item.title || '',
+      link: item.url || item.external_url || (item.id?.startsWith('http') ? item.id : ''),
+      description: item.summary || item.content_text || (item.content_html ? stripHtml(item.content_html) : ''),
+      contentHtml: item.content_html || null,
+      imageUrl: item.image || item.banner_image || firstImageInHtml(item.content_html),
+      pubDate: item.date_published || item.date_modified,
+    }));
+  },
+};
+
+/**
+ * Contenu brut d'une balise (avec ou sans préfixe de namespace)
+ */
+function tagContent(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?=[\\s>])[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Texte d'une balise, CDATA et entités décodés
+ */
+function tagText(xml: string, tag: string): string | null {
+  const content = tagContent(xml, tag);
+  if (content === null) return null;
+  const text = content.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1');
+  return decodeEntities(text).trim();
+}
+
+/**
+ * Sitemap Google News : <url><loc/><news:news><news:publication_date/><news:title/></news:news></url>
+ * Ces sitemaps n'ont pas de description : elle est complétée par les métadonnées de la page.
+ */
+const newsSitemapAdapter: FeedAdapter = {
+  type: 'sitemap-news',
+  accept: 'application/xml, text/xml;q=0.9',
+  async parse(body) {
+    if (!/<urlset\b/.test(body)) {
+      throw new Error('Sitemap invalide (<urlset> manquant)');
+    }
+
+    const items: FeedItem[] = [];
+    for (const [, block] of body.matchAll(/<url\b[^>]*>([\s\S]*?)<\/url>/g)) {
+      const news = tagContent(block, 'news');
+      if (news === null) continue; // Entrée de sitemap classique, pas un article
+
+      const imageBlock = tagContent(block, 'image');
+      items.push({
+        title: tagText(news, 'title') || '',
+        link: tagText(block, 'loc') || '',
+        description: '',
+        contentHtml: null,
+        imageUrl: imageBlock ? tagText(imageBlock, 'loc') : null,
+        pubDate: tagText(news, 'publication_date') || tagText(block, 'lastmod') || undefined,
+      });
+    }
+    return items;
+  },
+};
+
+const ADAPTERS: Record<FeedType, FeedAdapter> = {
+  'rss': rssAdapter,
+  'atom': rssAdapter,
+  'jsonfeed': jsonFeedAdapter,
+  'sitemap-news': newsSitemapAdapter,
+};
+
+export function getFeedAdapter(type: FeedType = 'rss'): FeedAdapter {
+  return ADAPTERS[type];
+}
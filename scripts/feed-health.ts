@@ -0,0 +1,133 @@
+/**
+ * Feed Health - Cache HTTP conditionnel et suivi de santé des flux RSS
+ *
+ * Un enregistrement par source (clé : URL du flux) est persisté dans
+ * data/feed-health.json : ETag / Last-Modified pour les GET conditionnels,
+ * dernier succès, échecs consécutifs, nombre d'items, latence moyenne.
+ *
+ * Une source qui échoue MAX_CONSECUTIVE_FAILURES fois d'affilée est
+ * désactivée automatiquement et signalée dans le résumé de curate.ts.
+ * Pour la réactiver : supprimer son entrée du fichier ou lancer
+ * `npm run curate -- --retry-disabled`.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const HEALTH_PATH = join(__dirname, '..', 'data', 'feed-health.json');
+
+export const MAX_CONSECUTIVE_FAILURES = 5;
+
+export interface FeedHealth {
+  name: string;
+  etag: string | null;
+  lastModified: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  lastItemCount: number;
+  /** Moyenne mobile exponentielle de la latence (ms) */
+  avgLatencyMs: number | null;
+  disabled: boolean;
+  disabledAt: string | null;
+}
+
+export type FeedHealthRecords = Record<string, FeedHealth>;
+
+/**
+ * Poids de la dernière mesure dans la latence moyenne
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+export function loadFeedHealth(path = HEALTH_PATH): FeedHealthRecords {
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    console.warn(`   ⚠ ${path} illisible, suivi de santé réinitialisé`);
+    return {};
+  }
+}
+
+export function saveFeedHealth(records: FeedHealthRecords, path = HEALTH_PATH): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(records, null, 2), 'utf-8');
+}
+
+/**
+ * Retourne l'enregistrement d'une source, créé si absent
+ */
+export function getFeedHealth(records: FeedHealthRecords, name: string, url: string): FeedHealth {
+  if (!records[url]) {
+    records[url] = {
+      name,
+      etag: null,
+      lastModified: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      consecutiveFailures: 0,
+      lastItemCount: 0,
+      avgLatencyMs: null,
+      disabled: false,
+      disabledAt: null,
+    };
+  }
+  records[url].name = name;
+  return records[url];
+}
+
+function updateLatency(health: FeedHealth, latencyMs: number): void {
+  health.avgLatencyMs = health.avgLatencyMs === null
+    ? Math.round(latencyMs)
+    : Math.round(health.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+}
+
+/**
+ * Enregistre un succès. itemCount vaut null pour une réponse 304 (inchangé).
+ */
+export function recordSuccess(
+  health: FeedHealth,
+  { latencyMs, itemCount, etag, lastModified }: {
+    latencyMs: number;
+    itemCount: number | null;
+    etag?: string | null;
+    lastModified?: string | null;
+  }
+): void {
+  health.lastSuccessAt = new Date().toISOString();
+  health.consecutiveFailures = 0;
+  health.lastError = null;
+  health.disabled = false;
+  health.disabledAt = null;
+  if (itemCount !== null) health.lastItemCount = itemCount;
+  if (etag !== undefined) health.etag = etag;
+  if (lastModified !== undefined) health.lastModified = lastModified;
+  updateLatency(health, latencyMs);
+}
+
+/**
+ * Enregistre un échec et désactive la source au-delà du seuil.
+ * Retourne true si la source vient d'être désactivée.
+ */
+export function recordFailure(health: FeedHealth, error: string, latencyMs: number): boolean {
+  health.lastFailureAt = new Date().toISOString();
+  health.lastError = error;
+  health.consecutiveFailures++;
+  updateLatency(health, latencyMs);
+
+  if (!health.disabled && health.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    health.disabled = true;
+    health.disabledAt = health.lastFailureAt;
+    return true;
+  }
+  return false;
+}
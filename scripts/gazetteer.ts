@@ -0,0 +1,274 @@
+/**
+ * Gazetteer - Dictionnaire d'entités (pays, dirigeants, organisations)
+ *
+ * Les données sont dans config/gazetteer.json et s'éditent directement :
+ *   - countries : code ISO 3166-1 (id alpha-2, iso3), noms FR/EN, capitale,
+ *                 centroïde lat/lng, gentilés, alias (villes, institutions...)
+ *   - people    : dirigeants, rattachés à leur pays (`country`)
+ *   - orgs      : organisations internationales, banques centrales, groupes armés
+ *   - companies : entreprises et laboratoires d'IA, avec leur secteur (`tech`
+ *                 ou `eco`), leurs symboles boursiers (`tickers`) et leurs
+ *                 produits phares en alias (« iPhone » → Apple, « ChatGPT » → OpenAI)
+ *
+ * Conventions des alias :
+ *   - insensibles à la casse et aux accents, reconnus sur des mots entiers
+ *     ("un" ne matche plus "une", "ice" ne matche plus "police")
+ *   - préfixe "=" : sensible à la casse, pour les sigles ambigus ("=UN", "=US", "=Fed")
+ *   - `stopAliases` : alias jamais reconnus seuls (prénoms, mots courants :
+ *     "Maurice", "Dominique"...), hors alias "="
+ *   - les gentilés FR sont déclinés automatiquement (féminin, pluriel) et les
+ *     gentilés EN mis au pluriel
+ *   - symboles boursiers toujours sensibles à la casse ("TSLA", "NVDA")
+ *   - alias partagé : priorité aux organisations, puis aux entreprises, aux
+ *     personnes et enfin aux pays ("Bruxelles" désigne l'UE, pas la Belgique)
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const GAZETTEER_PATH = join(__dirname, '..', 'config', 'gazetteer.json');
+
+export type EntityType = 'country' | 'person' | 'org' | 'company';
+
+export interface Entity {
+  type: EntityType;
+  /** ISO 3166-1 alpha-2 pour les pays, identifiant slug pour les personnes, organisations et entreprises */
+  id: string;
+}
+
+export interface GazetteerCountry {
+  id: string;
+  iso3: string;
+  name: { fr: string; en: string };
+  capital: { fr: string; en: string };
+  lat: number;
+  lng: number;
+  demonyms?: { fr: string[]; en: string[] };
+  aliases?: string[];
+}
+
+export interface GazetteerPerson {
+  id: string;
+  name: string;
+  /** Pays du dirigeant (absent pour les dirigeants d'organisations internationales) */
+  country?: string;
+  aliases?: string[];
+}
+
+export interface GazetteerOrg {
+  id: string;
+  name: string;
+  /** Pays de rattachement (groupes armés, banques centrales nationales...) */
+  country?: string;
+  aliases?: string[];
+}
+
+export interface GazetteerCompany {
+  id: string;
+  name: string;
+  /** Pays du siège */
+  country?: string;
+  sector: 'tech' | 'eco';
+  /** Symboles boursiers (reconnus en respectant la casse) */
+  tickers?: string[];
+  aliases?: string[];
+}
+
+export interface Gazetteer {
+  stopAliases: string[];
+  countries: GazetteerCountry[];
+  people: GazetteerPerson[];
+  orgs: GazetteerOrg[];
+  companies: GazetteerCompany[];
+}
+
+interface AliasPattern {
+  /** Tokens de l'alias (normalisés, ou bruts si sensible à la casse) */
+  tokens: string[];
+  caseSensitive: boolean;
+  entity: Entity;
+}
+
+interface Token {
+  raw: string;
+  norm: string;
+}
+
+interface EntityMatcher {
+  /** Alias indexés par leur premier token normalisé, les plus longs d'abord */
+  byFirstToken: Map<string, AliasPattern[]>;
+  gazetteer: Gazetteer;
+}
+
+/**
+ * Découpe un texte en mots, sans accents : "l'Ukraine" → l / Ukraine, "États-Unis" → Etats / Unis
+ */
+function toTokens(text: string): Token[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(raw => raw.length > 0)
+    .map(raw => ({ raw, norm: raw.toLowerCase() }));
+}
+
+/**
+ * Formes fléchies d'un gentilé français : ukrainien → ukrainienne, ukrainiens, ukrainiennes
+ */
+function frenchDemonymForms(demonym: string): string[] {
+  const forms = [demonym];
+  if (!demonym.endsWith('e')) {
+    forms.push(demonym.endsWith('en') ? `${demonym}ne` : `${demonym}e`);
+  }
+  return forms.flatMap(form => (/[sx]$/.test(form) ? [form] : [form, `${form}s`]));
+}
+
+/**
+ * Pluriel d'un gentilé anglais : Ukrainian → Ukrainians, Israeli → Israelis (French, Chinese : invariables)
+ */
+function englishDemonymForms(demonym: string): string[] {
+  return /[ni]$/.test(demonym) ? [demonym, `${demonym}s`] : [demonym];
+}
+
+function countryAliases(country: GazetteerCountry): string[] {
+  return [
+    country.name.fr,
+    country.name.en,
+    country.capital.fr,
+    country.capital.en,
+    ...(country.aliases || []),
+    ...(country.demonyms?.fr || []).flatMap(d => (d.startsWith('=') ? [d] : frenchDemonymForms(d))),
+    ...(country.demonyms?.en || []).flatMap(d => (d.startsWith('=') ? [d] : englishDemonymForms(d))),
+  ];
+}
+
+/**
+ * Construit l'index des alias d'un gazetteer
+ */
+export function buildEntityMatcher(gazetteer: Gazetteer): EntityMatcher {
+  const stopAliases = new Set(gazetteer.stopAliases.map(alias => toTokens(alias).map(t => t.norm).join(' ')));
+  const byFirstToken = new Map<string, AliasPattern[]>();
+  const claimed = new Set<string>();
+
+  const add = (alias: string, entity: Entity) => {
+    const caseSensitive = alias.startsWith('=');
+    const tokens = toTokens(caseSensitive ? alias.slice(1) : alias).map(t => (caseSensitive ? t.raw : t.norm));
+    if (tokens.length === 0) return;
+
+    const key = `${caseSensitive ? '=' : ''}${tokens.join(' ')}`;
+    if (claimed.has(key)) return; // Alias déjà attribué à une entité prioritaire
+    if (!caseSensitive && stopAliases.has(key)) return;
+    claimed.add(key);
+
+    const first = tokens[0].toLowerCase();
+    const patterns = byFirstToken.get(first) ?? [];
+    patterns.push({ tokens, caseSensitive, entity });
+    byFirstToken.set(first, patterns);
+  };
+
+  // Priority order: organisations, companies, people, then countries
+  for (const org of gazetteer.orgs) {
+    for (const alias of [org.name, ...(org.aliases || [])]) add(alias, { type: 'org', id: org.id });
+  }
+  for (const company of gazetteer.companies || []) {
+    const tickers = (company.tickers || []).map(ticker => `=${ticker}`);
+    for (const alias of [company.name, ...(company.aliases || []), ...tickers]) {
+      add(alias, { type: 'company', id: company.id });
+    }
+  }
+  for (const person of gazetteer.people) {
+    for (const alias of [person.name, ...(person.aliases || [])]) add(alias, { type: 'person', id: person.id });
+  }
+  for (const country of gazetteer.countries) {
+    for (const alias of countryAliases(country)) add(alias, { type: 'country', id: country.id });
+  }
+
+  for (const patterns of byFirstToken.values()) {
+    patterns.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  return { byFirstToken, gazetteer };
+}
+
+let cachedMatcher: EntityMatcher | null = null;
+
+function defaultMatcher(): EntityMatcher {
+  if (!cachedMatcher) {
+    const gazetteer = JSON.parse(readFileSync(GAZETTEER_PATH, 'utf-8')) as Gazetteer;
+    cachedMatcher = buildEntityMatcher(gazetteer);
+  }
+  return cachedMatcher;
+}
+
+function matchesAt(tokens: Token[], start: number, pattern: AliasPattern): boolean {
+  if (start + pattern.tokens.length > tokens.length) return false;
+  return pattern.tokens.every((expected, k) => {
+    const token = tokens[start + k];
+    return pattern.caseSensitive ? token.raw === expected : token.norm === expected;
+  });
+}
+
+/**
+ * Entités citées dans un texte, dans l'ordre de première apparition et sans doublons.
+ * À chaque position, l'alias le plus long l'emporte ("Corée du Nord" plutôt que "Corée").
+ */
+export function extractEntities(text: string, matcher = defaultMatcher()): Entity[] {
+  const tokens = toTokens(text);
+  const entities: Entity[] = [];
+  const seen = new Set<string>();
+
+  let i = 0;
+  while (i < tokens.length) {
+    const candidates = matcher.byFirstToken.get(tokens[i].norm) || [];
+    const match = candidates.find(pattern => matchesAt(tokens, i, pattern));
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    const key = entityKey(match.entity);
+    if (!seen.has(key)) {
+      seen.add(key);
+      entities.push(match.entity);
+    }
+    i += match.tokens.length;
+  }
+
+  return entities;
+}
+
+/**
+ * Clé unique d'une entité (ex: "country:UA", "person:vladimir-putin")
+ */
+export function entityKey(entity: Entity): string {
+  return `${entity.type}:${entity.id}`;
+}
+
+/**
+ * Pays rattaché à une entité : le pays lui-même, le pays d'un dirigeant,
+ * d'une organisation ou du siège d'une entreprise
+ */
+export function entityCountry(entity: Entity, matcher = defaultMatcher()): string | null {
+  const { gazetteer } = matcher;
+  switch (entity.type) {
+    case 'country':
+      return entity.id;
+    case 'person':
+      return gazetteer.people.find(p => p.id === entity.id)?.country || null;
+    case 'org':
+      return gazetteer.orgs.find(o => o.id === entity.id)?.country || null;
+    case 'company':
+      return (gazetteer.companies || []).find(c => c.id === entity.id)?.country || null;
+  }
+}
+
+/**
+ * Fiche d'un pays (capitale, centroïde...) par code ISO alpha-2
+ */
+export function getCountry(id: string, matcher = defaultMatcher()): GazetteerCountry | null {
+  return matcher.gazetteer.countries.find(c => c.id === id) || null;
+}
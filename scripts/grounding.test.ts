@@ -0,0 +1,130 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import {
+  checkGrounding,
+  type GroundedText,
+  type GroundingJudge,
+  type GroundingSource,
+  type GroundingStatus,
+} from './grounding.js';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'grounding');
+
+/**
+ * Story, articles sources, réponses du juge simulé et rapport attendu
+ */
+interface GroundingFixture {
+  description: string;
+  articles: GroundingSource[];
+  story: GroundedText;
+  /** Verdicts du juge simulé, par texte d'affirmation ; null : juge indisponible */
+  judge: Record<string, { supported: boolean; note?: string }> | null;
+  expected: {
+    status: GroundingStatus;
+    /** Textes des affirmations non sourcées attendues */
+    unsupported: string[];
+  };
+}
+
+/**
+ * Judge answering from a table of verdicts keyed by claim text: claims it does not
+ * know get no verdict, and a null table makes the call fail
+ */
+function stubJudge(verdicts: GroundingFixture['judge']): GroundingJudge {
+  return async (_system, prompt) => {
+    if (!verdicts) throw new Error('HTTP 529 overloaded');
+    const claims = [...prompt.matchAll(/^(\d+)\. \[\w+\] (.+)$/gm)];
+    return JSON.stringify({
+      verdicts: claims
+        .filter(([, , text]) => verdicts[text] !== undefined)
+        .map(([, id, text]) => ({ id: Number(id), ...verdicts[text] })),
+    });
+  };
+}
+
+function article(description: string): GroundingSource {
+  return { source: 'Reuters', title: 'World news', description };
+}
+
+function story(...bullets: string[]): GroundedText {
+  return { bullets, execSummary: '' };
+}
+
+async function unsupported(text: GroundedText, sources: GroundingSource[]): Promise<string[]> {
+  const report = await checkGrounding(text, sources);
+  return report.unsupported.map(claim => `${claim.kind} ${claim.text}`);
+}
+
+describe('fixtures/grounding', () => {
+  const files = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json')).sort();
+
+  it.each(files)('%s', async file => {
+    const fixture = JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf-8')) as GroundingFixture;
+    const report = await checkGrounding(fixture.story, fixture.articles, stubJudge(fixture.judge));
+
+    expect(report.status).toBe(fixture.expected.status);
+    expect(report.unsupported.map(claim => claim.text).sort()).toEqual([...fixture.expected.unsupported].sort());
+  });
+});
+
+describe('checkGrounding', () => {
+  it('compares numbers by value, whatever the notation', async () => {
+    const sources = [article('About 1,500 troops and 2.5 million shells were sent to the front.')];
+
+    expect(await unsupported(story('Les 1 500 soldats et 2,5 millions d’obus envoyés au front'), sources)).toEqual([]);
+    expect(await unsupported(story('Le budget militaire augmente de 12 %'), sources)).toEqual(['number 12']);
+  });
+
+  it('supports a country through any entity of that country, but not an absent organization', async () => {
+    const sources = [article('Volodymyr Zelensky met European leaders on Monday.')];
+
+    expect(await unsupported(story("L'Ukraine réclame des garanties de sécurité"), sources)).toEqual([]);
+    expect(await unsupported(story("L'Ukraine saisit l'OMS"), sources)).toEqual(['entity org:who']);
+  });
+
+  it('supports a name through one of its words or a close variant, not any word sharing a prefix', async () => {
+    const sources = [article('The Senate passed the aid package as prices of goods and merchandise kept rising.')];
+
+    expect(await unsupported(story('Le texte est adopté par le Sénat'), sources)).toEqual([]);
+    expect(await unsupported(story('Le ministre Merchel salue le vote'), sources)).toEqual(['name Merchel']);
+  });
+
+  it('supports a quote when most of its words appear in the sources', async () => {
+    const sources = [article('Kyiv said the situation on the front remained « extrêmement fragile et très incertaine ».')];
+
+    expect(await unsupported(story('Kyiv juge la situation « extrêmement fragile et incertaine »'), sources)).toEqual([]);
+    expect(await unsupported(story('Kyiv dénonce « une trahison pure et simple »'), sources))
+      .toEqual(['quote une trahison pure et simple']);
+  });
+
+  it('drops the claims the judge confirms and keeps its note on the others', async () => {
+    const report = await checkGrounding(
+      story('Les 12 000 soldats et 800 chars du front'),
+      [article('Twelve thousand soldiers were deployed.')],
+      stubJudge({
+        '12 000': { supported: true, note: 'Twelve thousand' },
+        '800': { supported: false, note: 'Aucun nombre de chars' },
+      })
+    );
+
+    expect(report.status).toBe('flagged');
+    expect(report.judgedSupported).toBe(1);
+    expect(report.unsupported).toEqual([{ kind: 'number', text: '800', field: 'bullets[0]', judgeNote: 'Aucun nombre de chars' }]);
+  });
+
+  it('flags instead of rejecting when the judge is unavailable', async () => {
+    const text = story('Les 12 000 soldats, 800 chars et 40 avions envoyés par l’OMS');
+    const sources = [article('Troops were deployed.')];
+
+    const rejected = await checkGrounding(text, sources, stubJudge({}));
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.judgeUnavailable).toBeUndefined();
+
+    const report = await checkGrounding(text, sources, stubJudge(null));
+    expect(report.status).toBe('flagged');
+    expect(report.judgeUnavailable).toBe(true);
+    expect(report.unsupported.map(claim => claim.text)).toEqual(['12 000', '800', '40', 'org:who']);
+  });
+});
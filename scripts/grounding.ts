@@ -0,0 +1,295 @@
+/**
+ * Grounding - Vérifie que les affirmations d'une story figurent dans ses sources
+ *
+ * Après la synthèse, les affirmations vérifiables des bullets et de
+ * l'execSummary sont extraites puis recherchées dans les articles fournis au
+ * modèle (titres, descriptions, extraits, noms des sources) :
+ *
+ *   - number : chiffres (« 400 millions », « 12 % », « 1,5 »), comparés en
+ *              valeur quelle que soit la notation (1 500 / 1,500 / 1.5)
+ *   - entity : pays, dirigeants, organisations, entreprises du gazetteer ; un
+ *              pays est sourcé si une source cite une entité de ce pays
+ *   - name   : autres noms propres, sourcés si un de leurs mots apparaît
+ *              (ou une variante de même préfixe : Sénat / Senate)
+ *   - quote  : citations entre guillemets, sourcées si l'essentiel de leurs
+ *              mots apparaît
+ *
+ * Les affirmations introuvables telles quelles (citation traduite d'une source
+ * anglaise, chiffre écrit en lettres) sont soumises en un seul appel à un juge
+ * (GroundingJudge : un modèle en production, un stub hors-ligne), qui les
+ * confirme ou non à partir des mêmes articles.
+ *
+ * Le rapport (`grounding`) est conservé sur la story : "grounded" si tout est
+ * sourcé, "flagged" jusqu'à MAX_UNSUPPORTED_CLAIMS affirmations non sourcées,
+ * "rejected" au-delà (synthesize.ts écarte alors la story). Si le juge est
+ * indisponible (erreur d'appel, réponse illisible), la story n'est jamais
+ * rejetée : elle est "flagged" avec `judgeUnavailable`, pour qu'une panne du
+ * modèle de vérification ne vide pas l'édition.
+ */
+
+import { extractEntities, entityKey, entityCountry } from './gazetteer.js';
+import type {
+  ClaimKind,
+  GroundingClaim,
+  GroundingReport,
+  GroundingStatus,
+  UnsupportedClaim,
+} from '../src/types/index.js';
+
+// The report is published with the story: its types are shared with the frontend
+export type { ClaimKind, GroundingClaim, GroundingReport, GroundingStatus, UnsupportedClaim };
+
+/**
+ * Article source tel que vu par la vérification
+ */
+export interface GroundingSource {
+  source: string;
+  title: string;
+  description: string;
+  bodyText?: string;
+}
+
+export interface GroundedText {
+  bullets: string[];
+  execSummary: string;
+}
+
+/**
+ * Appel d'un modèle : prompt système + prompt utilisateur → texte de la réponse
+ */
+export type GroundingJudge = (system: string, prompt: string) => Promise<string>;
+
+/**
+ * Au-delà, la story est rejetée
+ */
+export const MAX_UNSUPPORTED_CLAIMS = 2;
+
+/**
+ * Part des mots d'une citation à retrouver dans les sources
+ */
+const QUOTE_COVERAGE = 0.7;
+
+const MIN_QUOTE_WORDS = 3;
+
+/**
+ * Longueur du préfixe comparé pour les noms propres (« Sénat » / « Senate »)
+ */
+const NAME_PREFIX_LENGTH = 5;
+
+/**
+ * Écart de longueur toléré entre deux mots de même préfixe : une variante
+ * (« Sénat » / « Senate »), pas un autre mot (« Macron » / « macroéconomie »)
+ */
+const NAME_LENGTH_SLACK = 2;
+
+const NUMBER_PATTERN = /(?<![\p{L}\d])\d{1,3}(?:[ \u00a0\u202f]\d{3})+(?:,\d+)?(?!\d)|(?<![\p{L}\d])\d+(?:[.,]\d+)*(?!\d)/gu;
+
+const QUOTE_PATTERN = /«\s*([^»]+?)\s*»|“([^”]+)”|"([^"]+)"/g;
+
+// Capitalized words that are not proper names in French news copy
+const COMMON_CAPITALIZED = new Set([
+  'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'l', 'd', 'au', 'aux', 'et', 'ou', 'en', 'a', 'selon', 'pour',
+  'etat', 'etats', 'premier', 'ministre', 'president', 'presidente',
+]);
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[’`]/g, "'").toLowerCase();
+}
+
+function words(text: string): string[] {
+  return fold(text).split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 0);
+}
+
+/**
+ * Valeurs possibles d'un nombre écrit en français ou en anglais
+ * ("1,5" → 1.5 ou 15 ; "1,500" → 1.5 ou 1500 ; "1 500" → 1500)
+ */
+function numberValues(raw: string): number[] {
+  const compact = raw.replace(/[ \u00a0\u202f]/g, '');
+  const frenchStyle = Number(compact.replace(/\./g, '').replace(',', '.'));
+  const englishStyle = Number(compact.replace(/,/g, ''));
+  return [...new Set([frenchStyle, englishStyle].filter(Number.isFinite))];
+}
+
+/**
+ * Noms propres hors début de phrase : suites de mots à majuscule
+ */
+function properNames(text: string): string[] {
+  const names: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?:;«"“])\s+|\n+/)) {
+    let current: string[] = [];
+    const flush = () => {
+      if (current.length > 0) names.push(current.join(' '));
+      current = [];
+    };
+    sentence.split(/\s+/).forEach((token, index) => {
+      const word = token.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+      const capitalized = /^\p{Lu}\p{Ll}/u.test(word) && !COMMON_CAPITALIZED.has(fold(word).replace(/'.*$/, ''));
+      if (index > 0 && capitalized) {
+        current.push(word);
+        if (/[^\p{L}'’-]$/u.test(token)) flush();
+      } else {
+        flush();
+      }
+    });
+    flush();
+  }
+  return names;
+}
+
+/**
+ * Affirmations vérifiables d'une story, sans doublons
+ */
+export function extractClaims(story: GroundedText): GroundingClaim[] {
+  const claims: GroundingClaim[] = [];
+  const seen = new Set<string>();
+  const add = (claim: GroundingClaim, key: string) => {
+    if (seen.has(key)) return;
+    seen.add(key);
+    claims.push(claim);
+  };
+
+  const fields: [string, string][] = [
+    ...story.bullets.map((bullet, index): [string, string] => [`bullets[${index}]`, bullet]),
+    ['execSummary', story.execSummary],
+  ];
+
+  for (const [field, text] of fields) {
+    for (const match of text.matchAll(NUMBER_PATTERN)) {
+      add({ kind: 'number', text: match[0], field }, `number:${numberValues(match[0]).join('|')}`);
+    }
+    for (const entity of extractEntities(text)) {
+      add({ kind: 'entity', text: entityKey(entity), field }, entityKey(entity));
+    }
+    for (const name of properNames(text)) {
+      // Gazetteer entities are checked by key, not by spelling
+      if (extractEntities(name).length > 0) continue;
+      add({ kind: 'name', text: name, field }, `name:${fold(name)}`);
+    }
+    for (const match of text.matchAll(QUOTE_PATTERN)) {
+      const quote = (match[1] ?? match[2] ?? match[3]).trim();
+      if (words(quote).length < MIN_QUOTE_WORDS) continue;
+      add({ kind: 'quote', text: quote, field }, `quote:${fold(quote)}`);
+    }
+  }
+  return claims;
+}
+
+/**
+ * Index des sources : valeurs numériques, entités, mots (et mots par préfixe)
+ */
+function indexSources(sources: GroundingSource[]) {
+  const text = sources.map(s => `${s.source}\n${s.title}\n${s.description}\n${s.bodyText || ''}`).join('\n');
+  const entities = extractEntities(text);
+  const sourceWords = new Set(words(text));
+  const wordsByPrefix = new Map<string, string[]>();
+  for (const word of sourceWords) {
+    const prefix = word.slice(0, NAME_PREFIX_LENGTH);
+    const samePrefix = wordsByPrefix.get(prefix);
+    if (samePrefix) samePrefix.push(word);
+    else wordsByPrefix.set(prefix, [word]);
+  }
+  return {
+    numbers: new Set([...text.matchAll(NUMBER_PATTERN)].flatMap(match => numberValues(match[0]))),
+    entities: new Set(entities.map(entityKey)),
+    countries: new Set(entities.map(entity => entityCountry(entity)).filter((c): c is string => c !== null)),
+    words: sourceWords,
+    wordsByPrefix,
+  };
+}
+
+type SourceIndex = ReturnType<typeof indexSources>;
+
+function isSupported(claim: GroundingClaim, index: SourceIndex): boolean {
+  switch (claim.kind) {
+    case 'number':
+      return numberValues(claim.text).some(value => index.numbers.has(value));
+    case 'entity': {
+      if (index.entities.has(claim.text)) return true;
+      const [type, id] = claim.text.split(':');
+      return type === 'country' && index.countries.has(id);
+    }
+    case 'name':
+      return words(claim.text)
+        .filter(word => word.length >= 3)
+        .some(word => index.words.has(word) || (index.wordsByPrefix.get(word.slice(0, NAME_PREFIX_LENGTH)) ?? [])
+          .some(sourceWord => Math.abs(sourceWord.length - word.length) <= NAME_LENGTH_SLACK));
+    case 'quote': {
+      const quoteWords = words(claim.text).filter(word => word.length >= 4);
+      if (quoteWords.length === 0) return true;
+      return quoteWords.filter(word => index.words.has(word)).length / quoteWords.length >= QUOTE_COVERAGE;
+    }
+  }
+}
+
+const JUDGE_SYSTEM_PROMPT = `Tu vérifies des affirmations extraites d'une synthèse de presse.
+Pour chaque affirmation numérotée, indique si les articles fournis la soutiennent, y compris sous une autre forme (traduction, chiffre écrit en lettres, nom orthographié autrement).
+Une affirmation absente des articles n'est PAS soutenue, même si elle est vraie par ailleurs.
+
+FORMAT DE SORTIE (JSON strict, pas de markdown) :
+{ "verdicts": [{ "id": 1, "supported": true | false, "note": "Explication courte" }] }`;
+
+/**
+ * Verdicts du juge par numéro d'affirmation ; null si le juge est indisponible
+ * (échec de l'appel ou réponse illisible)
+ */
+async function judgeClaims(
+  judge: GroundingJudge,
+  claims: GroundingClaim[],
+  sources: GroundingSource[]
+): Promise<Map<number, { supported: boolean; note?: string }> | null> {
+  const prompt = `ARTICLES :
+${sources.map((s, i) => `ARTICLE ${i + 1} (${s.source}) :\nTitre: ${s.title}\nDescription: ${s.description}\n${s.bodyText ? `Extrait:\n${s.bodyText}\n` : ''}`).join('\n---\n')}
+
+AFFIRMATIONS À VÉRIFIER :
+${claims.map((claim, i) => `${i + 1}. [${claim.kind}] ${claim.text}`).join('\n')}`;
+
+  const verdicts = new Map<number, { supported: boolean; note?: string }>();
+  try {
+    let text = (await judge(JUDGE_SYSTEM_PROMPT, prompt)).trim();
+    text = text.replace(/^```(?:json)?/, '').replace(/```$/, '').trim();
+    const parsed = JSON.parse(text) as { verdicts?: { id?: unknown; supported?: unknown; note?: unknown }[] };
+    for (const verdict of parsed.verdicts || []) {
+      if (typeof verdict.id === 'number' && typeof verdict.supported === 'boolean') {
+        verdicts.set(verdict.id - 1, { supported: verdict.supported, note: typeof verdict.note === 'string' ? verdict.note : undefined });
+      }
+    }
+  } catch (error) {
+    console.warn(`   ⚠ Vérification des sources: juge indisponible (${error instanceof Error ? error.message : error})`);
+    return null;
+  }
+  return verdicts;
+}
+
+/**
+ * Vérifie les affirmations d'une story contre ses articles sources.
+ * Sans juge, les affirmations introuvables telles quelles restent non sourcées.
+ */
+export async function checkGrounding(
+  story: GroundedText,
+  sources: GroundingSource[],
+  judge?: GroundingJudge
+): Promise<GroundingReport> {
+  const index = indexSources(sources);
+  const claims = extractClaims(story);
+  const notFound = claims.filter(claim => !isSupported(claim, index));
+
+  const verdicts = judge && notFound.length > 0 ? await judgeClaims(judge, notFound, sources) : new Map();
+  const unsupported: UnsupportedClaim[] = notFound.flatMap((claim, i) => {
+    const verdict = verdicts?.get(i);
+    if (verdict?.supported) return [];
+    return [verdict?.note ? { ...claim, judgeNote: verdict.note } : claim];
+  });
+
+  // Without verdicts, unsupported claims are unchecked rather than disproved
+  const judgeUnavailable = verdicts === null;
+  return {
+    status: unsupported.length === 0
+      ? 'grounded'
+      : unsupported.length <= MAX_UNSUPPORTED_CLAIMS || judgeUnavailable ? 'flagged' : 'rejected',
+    claimCount: claims.length,
+    judgedSupported: notFound.length - unsupported.length,
+    unsupported,
+    ...(judgeUnavailable ? { judgeUnavailable } : {}),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Importance - Score d'importance explicable des clusters
+ *
+ * Le score (1-10) est la somme de facteurs nommés, chacun normalisé entre
+ * 0 et 1 puis multiplié par son poids (config/importance.json, poids de
+ * somme 10 par défaut) :
+ *
+ *   - volume          : nombre d'articles (saturé à `volumeSaturation`)
+ *   - sourceDiversity : sources distinctes pondérées par leur `weight`
+ *                       (saturé à `sourceSaturation`) et pays des sources
+ *   - sourceTier      : type moyen des sources (agence > référence > revue de presse)
+ *   - recency         : décroissance exponentielle (demi-vie `recencyHalfLifeHours`)
+ *   - geography       : portée des entités citées (puissances, organisations)
+ *   - novelty         : nouveauté par rapport aux fils des jours précédents
+ *   - crossLanguage   : couverture dans plusieurs langues
+ *
+ * Le détail (`importanceBreakdown`) est écrit dans clustered-articles.json
+ * pour comprendre pourquoi un sujet a été retenu et ajuster les poids sur des
+ * éditions passées (`npm run cluster -- --importance-config=chemin.json`).
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const IMPORTANCE_CONFIG_PATH = join(__dirname, '..', 'config', 'importance.json');
+
+export const IMPORTANCE_FACTORS = [
+  'volume',
+  'sourceDiversity',
+  'sourceTier',
+  'recency',
+  'geography',
+  'novelty',
+  'crossLanguage',
+] as const;
+
+export type ImportanceFactor = (typeof IMPORTANCE_FACTORS)[number];
+
+export interface ImportanceConfig {
+  weights: Record<ImportanceFactor, number>;
+  volumeSaturation: number;
+  sourceSaturation: number;
+  recencyHalfLifeHours: number;
+  tierScores: { wire: number; reference: number; aggregator: number; default: number };
+  geography: {
+    defaultCountry: number;
+    defaultOrg: number;
+    /** Portée par clé d'entité (ex: "country:US", "org:un") */
+    entities: Record<string, number>;
+  };
+}
+
+export interface ScoredArticle {
+  source: string;
+  publishedAt: string;
+  sourceTier?: 'wire' | 'reference' | 'aggregator';
+  sourceWeight?: number;
+  sourceCountry?: string;
+  sourceLanguage?: string;
+  language?: string;
+}
+
+export interface ImportanceInput {
+  articles: ScoredArticle[];
+  /** Clés d'entités du cluster (voir text-features.ts) */
+  entities: Iterable<string>;
+  /** 0 = sujet déjà vu à l'identique les jours précédents, 1 = sujet nouveau */
+  novelty: number;
+  /** Instant de référence pour la récence (fin de la fenêtre de curation) */
+  referenceTime: number;
+}
+
+export interface FactorScore {
+  /** Valeur normalisée (0-1) */
+  value: number;
+  weight: number;
+  /** value × weight */
+  contribution: number;
+}
+
+export interface ImportanceBreakdown {
+  /** Somme des contributions, avant arrondi et bornage à 1-10 */
+  total: number;
+  factors: Record<ImportanceFactor, FactorScore>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Charge et vérifie une configuration de score
+ */
+export function loadImportanceConfig(path = IMPORTANCE_CONFIG_PATH): ImportanceConfig {
+  const config = JSON.parse(readFileSync(path, 'utf-8')) as ImportanceConfig;
+
+  for (const factor of IMPORTANCE_FACTORS) {
+    const weight = config.weights?.[factor];
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      throw new Error(`${path}: poids "${factor}" manquant ou invalide (nombre ≥ 0 attendu)`);
+    }
+  }
+  const unknown = Object.keys(config.weights).filter(f => !(IMPORTANCE_FACTORS as readonly string[]).includes(f));
+  if (unknown.length > 0) {
+    throw new Error(`${path}: facteur(s) inconnu(s) ${unknown.join(', ')} (attendus : ${IMPORTANCE_FACTORS.join(', ')})`);
+  }
+  for (const key of ['volumeSaturation', 'sourceSaturation', 'recencyHalfLifeHours'] as const) {
+    if (!(config[key] > 0)) {
+      throw new Error(`${path}: "${key}" doit être un nombre > 0`);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Sources distinctes, chacune pondérée par son `weight` (config/sources.json)
+ */
+function weightedSourceCount(articles: ScoredArticle[]): number {
+  const weights = new Map<string, number>();
+  for (const a of articles) {
+    weights.set(a.source, a.sourceWeight ?? 1);
+  }
+  return [...weights.values()].reduce((sum, w) => sum + w, 0);
+}
+
+function sourceDiversity(articles: ScoredArticle[], config: ImportanceConfig): number {
+  const sources = Math.min(1, weightedSourceCount(articles) / config.sourceSaturation);
+  const countries = new Set(articles.map(a => a.sourceCountry).filter(Boolean)).size;
+  return 0.75 * sources + 0.25 * Math.min(1, Math.max(0, countries - 1) / 2);
+}
+
+function sourceTier(articles: ScoredArticle[], config: ImportanceConfig): number {
+  const tiers = new Map<string, number>();
+  for (const a of articles) {
+    tiers.set(a.source, a.sourceTier ? config.tierScores[a.sourceTier] : config.tierScores.default);
+  }
+  const scores = [...tiers.values()];
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+function recency(articles: ScoredArticle[], referenceTime: number, config: ImportanceConfig): number {
+  const latest = Math.max(...articles.map(a => new Date(a.publishedAt).getTime()));
+  const hoursAgo = Math.max(0, (referenceTime - latest) / (1000 * 60 * 60));
+  return Math.pow(0.5, hoursAgo / config.recencyHalfLifeHours);
+}
+
+/**
+ * Portée de l'entité la plus significative du cluster
+ */
+function geography(entities: Iterable<string>, config: ImportanceConfig): number {
+  let best = 0;
+  for (const key of entities) {
+    const fallback = key.startsWith('country:') ? config.geography.defaultCountry
+      : key.startsWith('org:') ? config.geography.defaultOrg
+      : 0;
+    best = Math.max(best, config.geography.entities[key] ?? fallback);
+  }
+  return best;
+}
+
+function crossLanguage(articles: ScoredArticle[]): number {
+  const languages = new Set(articles.map(a => a.language || a.sourceLanguage).filter(Boolean));
+  return languages.size > 1 ? 1 : 0;
+}
+
+/**
+ * Score d'importance (1-10) et son détail par facteur
+ */
+export function scoreImportance(
+  input: ImportanceInput,
+  config: ImportanceConfig
+): { importance: number; breakdown: ImportanceBreakdown } {
+  const values: Record<ImportanceFactor, number> = {
+    volume: Math.min(1, input.articles.length / config.volumeSaturation),
+    sourceDiversity: sourceDiversity(input.articles, config),
+    sourceTier: sourceTier(input.articles, config),
+    recency: recency(input.articles, input.referenceTime, config),
+    geography: geography(input.entities, config),
+    novelty: Math.min(1, Math.max(0, input.novelty)),
+    crossLanguage: crossLanguage(input.articles),
+  };
+
+  let total = 0;
+  const factors = {} as Record<ImportanceFactor, FactorScore>;
+  for (const factor of IMPORTANCE_FACTORS) {
+    const weight = config.weights[factor];
+    const contribution = values[factor] * weight;
+    total += contribution;
+    factors[factor] = { value: round2(values[factor]), weight, contribution: round2(contribution) };
+  }
+
+  return {
+    importance: Math.min(10, Math.max(1, Math.round(total))),
+    breakdown: { total: round2(total), factors },
+  };
+}
+
+/**
+ * Résumé lisible des contributions non nulles, ex: "sourceDiversity 2.4 · recency 1.3"
+ */
+export function formatBreakdown(breakdown: ImportanceBreakdown): string {
+  return IMPORTANCE_FACTORS
+    .filter(factor => breakdown.factors[factor].contribution > 0)
+    .map(factor => `${factor} ${breakdown.factors[factor].contribution}`)
+    .join(' · ');
+}
@@ -0,0 +1,174 @@
+/**
+ * Language Detection - Identification de langue hors-ligne par n-grammes de caractères
+ *
+ * Modèle naïf bayésien sur les 1- à 3-grammes de caractères, entraîné sur
+ * les textes de config/language-samples/ (un fichier par langue) et
+ * sérialisé dans config/language-profiles.json.
+ *
+ * Les écritures non latines (arabe, cyrillique, hébreu, grec, CJK...) sont
+ * identifiées directement par leur plage Unicode, sans passer par le modèle.
+ *
+ * Régénérer les profils après modification des textes :
+ *   npm run build-language-profiles
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const PROFILES_PATH = join(__dirname, '..', 'config', 'language-profiles.json');
+
+const MAX_NGRAM = 3;
+
+/**
+ * Lissage additif pour les n-grammes absents d'un profil
+ */
+const SMOOTHING = 0.5;
+
+/**
+ * Écart de log-vraisemblance moyen (par n-gramme) converti en probabilité :
+ * plus la valeur est haute, plus la confiance monte vite avec l'écart.
+ */
+const CONFIDENCE_SCALE = 12;
+
+export interface LanguageProfiles {
+  generatedAt: string;
+  maxNgram: number;
+  languages: Record<string, { total: number; ngrams: Record<string, number> }>;
+}
+
+export interface LanguageGuess {
+  /** Code ISO 639-1, ou "und" si le texte est vide */
+  language: string;
+  /** Probabilité de la langue retenue (0-1) */
+  confidence: number;
+}
+
+/**
+ * Écritures identifiables sans modèle : [regex, langue]
+ */
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u0600-\u06FF\u0750-\u077F]/g, 'ar'],
+  [/[\u0400-\u04FF]/g, 'ru'],
+  [/[\u0590-\u05FF]/g, 'he'],
+  [/[\u0370-\u03FF]/g, 'el'],
+  [/[\u3040-\u30FF]/g, 'ja'],
+  [/[\uAC00-\uD7AF]/g, 'ko'],
+  [/[\u4E00-\u9FFF]/g, 'zh'],
+];
+
+/**
+ * Normalise un texte en suite de mots (minuscules, lettres uniquement)
+ */
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, ' ')
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 0);
+}
+
+/**
+ * Extrait les n-grammes de caractères (1 à MAX_NGRAM) de chaque mot, bornés par des espaces
+ */
+export function extractNgrams(text: string, maxNgram = MAX_NGRAM): string[] {
+  const ngrams: string[] = [];
+  for (const word of toWords(text)) {
+    const padded = ` ${word} `;
+    for (let n = 1; n <= maxNgram; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        const gram = padded.slice(i, i + n);
+        if (gram !== ' ') ngrams.push(gram);
+      }
+    }
+  }
+  return ngrams;
+}
+
+/**
+ * Construit les profils à partir de textes d'entraînement { langue: texte }
+ */
+export function buildProfiles(samples: Record<string, string>): LanguageProfiles {
+  const languages: LanguageProfiles['languages'] = {};
+  for (const [language, text] of Object.entries(samples)) {
+    const ngrams: Record<string, number> = {};
+    const grams = extractNgrams(text);
+    for (const gram of grams) {
+      ngrams[gram] = (ngrams[gram] || 0) + 1;
+    }
+    languages[language] = { total: grams.length, ngrams };
+  }
+  return { generatedAt: new Date().toISOString(), maxNgram: MAX_NGRAM, languages };
+}
+
+let cachedProfiles: LanguageProfiles | null = null;
+
+function loadProfiles(): LanguageProfiles {
+  if (!cachedProfiles) {
+    cachedProfiles = JSON.parse(readFileSync(PROFILES_PATH, 'utf-8')) as LanguageProfiles;
+  }
+  return cachedProfiles;
+}
+
+/**
+ * Détecte l'écriture dominante si elle n'est pas latine
+ */
+function detectScript(text: string): LanguageGuess | null {
+  const letters = text.match(/\p{L}/gu)?.length || 0;
+  if (letters === 0) return null;
+
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length || 0;
+    if (count / letters >= 0.3) {
+      return { language, confidence: Math.min(1, count / letters + 0.2) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Identifie la langue d'un texte (titre + description).
+ * Retourne toutes les langues candidates triées par probabilité décroissante.
+ */
+export function rankLanguages(text: string, profiles = loadProfiles()): LanguageGuess[] {
+  const script = detectScript(text);
+  if (script) return [script];
+
+  const grams = extractNgrams(text, profiles.maxNgram);
+  if (grams.length === 0) return [{ language: 'und', confidence: 0 }];
+
+  const vocabulary = new Set<string>();
+  for (const { ngrams } of Object.values(profiles.languages)) {
+    for (const gram of Object.keys(ngrams)) vocabulary.add(gram);
+  }
+
+  // Average log-likelihood per n-gram for each language
+  const scores = Object.entries(profiles.languages).map(([language, { total, ngrams }]) => {
+    const denominator = Math.log(total + SMOOTHING * vocabulary.size);
+    let logLikelihood = 0;
+    for (const gram of grams) {
+      logLikelihood += Math.log((ngrams[gram] || 0) + SMOOTHING) - denominator;
+    }
+    return { language, score: logLikelihood / grams.length };
+  });
+
+  // Softmax on scaled scores
+  const best = Math.max(...scores.map(s => s.score));
+  const exps = scores.map(s => ({ language: s.language, value: Math.exp((s.score - best) * CONFIDENCE_SCALE) }));
+  const sum = exps.reduce((acc, e) => acc + e.value, 0);
+
+  return exps
+    .map(e => ({ language: e.language, confidence: e.value / sum }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Identifie la langue la plus probable d'un texte
+ */
+export function detectLanguage(text: string): LanguageGuess {
+  return rankLanguages(text)[0];
+}
@@ -0,0 +1,128 @@
+/**
+ * Lexicon - Lexique bilingue FR/EN du vocabulaire d'actualité
+ *
+ * Les données sont dans config/lexicon.json et s'éditent directement :
+ * chaque concept a un identifiant et ses formulations françaises et anglaises
+ *
+ *   {"id": "ceasefire", "fr": ["cessez-le-feu", "trêve"], "en": ["ceasefire", "truce"]}
+ *
+ * text-features.ts remplace ces formulations par le concept (« ~ceasefire »)
+ * avant vectorisation : une dépêche Reuters et un article du Monde sur le
+ * même événement partagent ainsi leurs termes, sans traduction en ligne.
+ *
+ * Conventions :
+ *   - les formulations passent par la même normalisation que les articles
+ *     (minuscules, sans accents, mots vides retirés, racinisation de la langue) :
+ *     inutile de lister singulier et pluriel
+ *   - expressions de plusieurs mots reconnues telles quelles, la plus longue
+ *     l'emporte (« guerre commerciale » plutôt que « guerre »)
+ *   - formulation partagée par deux concepts : le premier déclaré l'emporte
+ *   - mot ambigu une fois racinisé (« cour » = « au cours de », « les cours du
+ *     pétrole ») : lister les expressions (« cour suprême ») plutôt que le mot
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const LEXICON_PATH = join(__dirname, '..', 'config', 'lexicon.json');
+
+export type LexiconLanguage = 'fr' | 'en';
+
+export interface LexiconConcept {
+  id: string;
+  fr: string[];
+  en: string[];
+}
+
+export interface Lexicon {
+  concepts: LexiconConcept[];
+}
+
+/**
+ * Normalisation d'un texte en tokens (celle de text-features.ts)
+ */
+export type Analyzer = (text: string, language: LexiconLanguage) => string[];
+
+interface TermPattern {
+  tokens: string[];
+  concept: string;
+}
+
+/**
+ * Formulations indexées par langue puis par premier token, les plus longues d'abord
+ */
+export type ConceptMatcher = Record<LexiconLanguage, Map<string, TermPattern[]>>;
+
+/**
+ * Préfixe des tokens de concept, pour ne pas les confondre avec une racine
+ */
+export const CONCEPT_PREFIX = '~';
+
+export function loadLexicon(path = LEXICON_PATH): Lexicon {
+  return JSON.parse(readFileSync(path, 'utf-8')) as Lexicon;
+}
+
+/**
+ * Construit l'index des formulations d'un lexique
+ */
+export function buildConceptMatcher(lexicon: Lexicon, analyze: Analyzer): ConceptMatcher {
+  const matcher: ConceptMatcher = { fr: new Map(), en: new Map() };
+
+  for (const language of ['fr', 'en'] as const) {
+    const index = matcher[language];
+    const claimed = new Set<string>();
+
+    for (const concept of lexicon.concepts) {
+      for (const term of concept[language] || []) {
+        const tokens = analyze(term, language);
+        if (tokens.length === 0) continue;
+
+        const key = tokens.join(' ');
+        if (claimed.has(key)) continue; // Formulation déjà attribuée à un concept précédent
+        claimed.add(key);
+
+        const patterns = index.get(tokens[0]) ?? [];
+        patterns.push({ tokens, concept: concept.id });
+        index.set(tokens[0], patterns);
+      }
+    }
+
+    for (const patterns of index.values()) {
+      patterns.sort((a, b) => b.tokens.length - a.tokens.length);
+    }
+  }
+
+  return matcher;
+}
+
+function matchesAt(tokens: string[], start: number, pattern: TermPattern): boolean {
+  if (start + pattern.tokens.length > tokens.length) return false;
+  return pattern.tokens.every((expected, k) => tokens[start + k] === expected);
+}
+
+/**
+ * Remplace les formulations du lexique par leur concept (« ~tariffs »),
+ * les autres tokens sont conservés tels quels
+ */
+export function mapConcepts(tokens: string[], language: LexiconLanguage, matcher: ConceptMatcher): string[] {
+  const index = matcher[language];
+  const mapped: string[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    const match = (index.get(tokens[i]) || []).find(pattern => matchesAt(tokens, i, pattern));
+    if (!match) {
+      mapped.push(tokens[i]);
+      i++;
+      continue;
+    }
+    mapped.push(`${CONCEPT_PREFIX}${match.concept}`);
+    i += match.tokens.length;
+  }
+
+  return mapped;
+}
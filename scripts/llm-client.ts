@@ -0,0 +1,292 @@
+/**
+ * LLM Client - Accès aux modèles indépendant du fournisseur
+ *
+ * Les scripts appellent un `LlmClient` (prompt système + messages → texte de
+ * la réponse) ; le fournisseur et le modèle de chaque tâche sont choisis par
+ * config/models.ts (MODEL_ROUTES, "fournisseur:modèle") :
+ *
+ *   - anthropic          : API Anthropic (SDK), ou endpoint compatible
+ *                          (Moonshot/Kimi) via baseUrl et bearerAuth
+ *   - openai-compatible  : /chat/completions (OpenAI, llama.cpp llama-server)
+ *   - ollama             : API native d'Ollama (/api/chat)
+ *
+ * Les particularités de chaque réponse (bloc thinking avant le texte, balises
+ * <think> des modèles locaux) sont gérées ici, pas dans les appelants.
+ *
+ * Deux modes permettent de faire tourner le pipeline sans réseau :
+ *
+ *   - record : appels réels, réponses enregistrées dans un fichier JSON
+ *   - replay : réponses lues dans ce fichier, aucun appel ni clé API ; une
+ *              requête absente des enregistrements est une erreur
+ *
+ * Une réponse est retrouvée par l'empreinte de sa requête (prompt système et
+ * messages) : le modèle ou le fournisseur peut changer entre l'enregistrement
+ * et le rejeu, pas les prompts.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { PROVIDERS, MODEL_ROUTES, type LlmProvider, type LlmTask, type ProviderName } from '../config/models.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Types
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  /** Plafond de la réponse, thinking compris pour les modèles qui en produisent */
+  maxTokens: number;
+  /** Met en cache le prompt système (Anthropic ; ignoré ailleurs) */
+  cacheSystem?: boolean;
+}
+
+export interface LlmClient {
+  /** "fournisseur:modèle", pour les logs */
+  readonly name: string;
+  complete(request: LlmRequest): Promise<string>;
+}
+
+export type LlmMode = 'live' | 'record' | 'replay';
+
+export interface LlmRoute {
+  provider: ProviderName;
+  model: string;
+}
+
+/**
+ * Réponse enregistrée, indexée par l'empreinte de sa requête
+ */
+export interface LlmRecording {
+  /** Client ayant produit la réponse */
+  client: string;
+  response: string;
+}
+
+export type LlmRecordings = Record<string, LlmRecording>;
+
+// Constants
+export const DEFAULT_RECORDINGS_PATH = join(__dirname, '..', 'fixtures', 'llm', 'recordings.json');
+
+const REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Lit une route "fournisseur:modèle" ; le modèle peut lui-même contenir ":" (ex: "ollama:qwen3:14b")
+ */
+export function parseRoute(route: string): LlmRoute {
+  const separator = route.indexOf(':');
+  const provider = route.slice(0, separator);
+  const model = route.slice(separator + 1);
+  if (separator <= 0 || !model || !(provider in PROVIDERS)) {
+    throw new Error(`Route LLM invalide: "${route}" (attendu "fournisseur:modèle", fournisseurs: ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return { provider: provider as ProviderName, model };
+}
+
+/**
+ * Clé API du fournisseur ; erreur explicite si la variable attendue est absente
+ */
+function providerKey(name: ProviderName, provider: LlmProvider): string | undefined {
+  if (!provider.apiKeyEnv) return undefined;
+  const key = process.env[provider.apiKeyEnv];
+  if (!key) {
+    throw new Error(`${provider.apiKeyEnv} non définie (requise par le fournisseur "${name}")`);
+  }
+  return key;
+}
+
+/**
+ * Retire le raisonnement que certains modèles locaux renvoient dans le texte
+ */
+function stripThinking(text: string): string {
+  return text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+}
+
+/**
+ * POST JSON avec une erreur lisible par withRetry (statut HTTP, "timeout")
+ */
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`${url}: timeout après ${REQUEST_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(`${url}: HTTP ${response.status} ${(await response.text()).slice(0, 500)}`);
+  }
+  return response.json();
+}
+
+function anthropicClient(name: ProviderName, provider: LlmProvider, model: string): LlmClient {
+  const key = providerKey(name, provider);
+  const sdk = new Anthropic({
+    baseURL: provider.baseUrl,
+    apiKey: provider.bearerAuth ? null : key,
+    authToken: provider.bearerAuth ? key : null,
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+
+  return {
+    name: `${name}:${model}`,
+    async complete({ system, messages, maxTokens, cacheSystem }) {
+      const response = await sdk.messages.create({
+        model,
+        max_tokens: maxTokens,
+        system: cacheSystem
+          ? [{ type: 'text' as const, text: system, cache_control: { type: 'ephemeral' as const } }]
+          : system,
+        messages,
+      });
+      // Les modèles thinking renvoient un bloc thinking en premier, le texte vient après
+      const content = response.content.find((b) => b.type === 'text');
+      if (!content || content.type !== 'text') {
+        throw new Error('No text block in response');
+      }
+      return content.text;
+    },
+  };
+}
+
+function openAiCompatibleClient(name: ProviderName, provider: LlmProvider, model: string): LlmClient {
+  const key = providerKey(name, provider);
+  return {
+    name: `${name}:${model}`,
+    async complete({ system, messages, maxTokens }) {
+      const data = await postJson(
+        `${provider.baseUrl}/chat/completions`,
+        { model, max_tokens: maxTokens, messages: [{ role: 'system', content: system }, ...messages] },
+        key ? { authorization: `Bearer ${key}` } : {}
+      ) as { choices?: { message?: { content?: string | null } }[] };
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) throw new Error('No text in response');
+      return stripThinking(text);
+    },
+  };
+}
+
+function ollamaClient(name: ProviderName, provider: LlmProvider, model: string): LlmClient {
+  const key = providerKey(name, provider);
+  return {
+    name: `${name}:${model}`,
+    async complete({ system, messages, maxTokens }) {
+      const data = await postJson(
+        `${provider.baseUrl}/api/chat`,
+        {
+          model,
+          stream: false,
+          options: { num_predict: maxTokens },
+          messages: [{ role: 'system', content: system }, ...messages],
+        },
+        key ? { authorization: `Bearer ${key}` } : {}
+      ) as { message?: { content?: string } };
+      const text = data.message?.content;
+      if (!text) throw new Error('No text in response');
+      return stripThinking(text);
+    },
+  };
+}
+
+/**
+ * Client réel d'une route "fournisseur:modèle"
+ */
+export function createRouteClient(route: string): LlmClient {
+  const { provider: name, model } = parseRoute(route);
+  const provider: LlmProvider = PROVIDERS[name];
+  switch (provider.api) {
+    case 'anthropic':
+      return anthropicClient(name, provider, model);
+    case 'openai-compatible':
+      return openAiCompatibleClient(name, provider, model);
+    case 'ollama':
+      return ollamaClient(name, provider, model);
+  }
+}
+
+/**
+ * Empreinte d'une requête : prompt système et messages
+ */
+export function requestKey({ system, messages }: LlmRequest): string {
+  return createHash('sha256').update(JSON.stringify({ system, messages })).digest('hex').slice(0, 16);
+}
+
+export function loadRecordings(path = DEFAULT_RECORDINGS_PATH): LlmRecordings {
+  if (!existsSync(path)) return {};
+  return JSON.parse(readFileSync(path, 'utf-8')) as LlmRecordings;
+}
+
+export function saveRecordings(recordings: LlmRecordings, path = DEFAULT_RECORDINGS_PATH): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const sorted = Object.fromEntries(Object.entries(recordings).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(path, JSON.stringify(sorted, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Client rejouant des réponses enregistrées, sans réseau
+ */
+export function replayClient(recordings: LlmRecordings, name = 'replay'): LlmClient {
+  return {
+    name,
+    async complete(request) {
+      const key = requestKey(request);
+      const recording = recordings[key];
+      if (!recording) {
+        throw new Error(`Aucune réponse enregistrée pour la requête ${key} (relancer avec --llm=record)`);
+      }
+      return recording.response;
+    },
+  };
+}
+
+/**
+ * Client réel dont les réponses sont ajoutées à `recordings`
+ */
+export function recordingClient(client: LlmClient, recordings: LlmRecordings): LlmClient {
+  return {
+    name: client.name,
+    async complete(request) {
+      const response = await client.complete(request);
+      recordings[requestKey(request)] = { client: client.name, response };
+      return response;
+    },
+  };
+}
+
+/**
+ * Mode et fichier d'enregistrements depuis la ligne de commande
+ * (--llm=live|record|replay, --recordings=chemin)
+ */
+export function parseLlmArgs(args: string[]): { mode: LlmMode; recordingsPath: string } {
+  const mode = args.find(arg => arg.startsWith('--llm='))?.split('=')[1] ?? 'live';
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Mode LLM invalide: "${mode}" (live, record ou replay)`);
+  }
+  const recordingsPath = args.find(arg => arg.startsWith('--recordings='))?.split('=')[1] ?? DEFAULT_RECORDINGS_PATH;
+  return { mode, recordingsPath };
+}
+
+/**
+ * Client d'une tâche selon sa route (config/models.ts) et le mode.
+ * En mode record et replay, `recordings` est partagé entre les tâches.
+ */
+export function createLlmClient(task: LlmTask, mode: LlmMode = 'live', recordings: LlmRecordings = {}): LlmClient {
+  if (mode === 'replay') return replayClient(recordings, `replay (${MODEL_ROUTES[task]})`);
+  const client = createRouteClient(MODEL_ROUTES[task]);
+  return mode === 'record' ? recordingClient(client, recordings) : client;
+}
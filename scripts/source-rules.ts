@@ -0,0 +1,127 @@
+/**
+ * Source Rules - Règles déclaratives de filtrage des items de flux
+ *
+ * Les règles sont déclarées dans config/sources.json, globalement (`rules`)
+ * et par source (`sources[].rules`), et appliquées par curate.ts à chaque
+ * item avant sa conservation :
+ *
+ *   { "name": "sport-url", "action": "exclude", "field": "path", "pattern": "/sports?/" }
+ *   { "name": "eco-section", "action": "category", "field": "path", "pattern": "^/economie/", "category": "eco" }
+ *   { "name": "sport-mots-cles", "action": "exclude", "keywords": ["football", "rugby"], "minMatches": 2 }
+ *
+ * Ordre d'application : règles exclude (source puis globales), puis include
+ * (si au moins une existe, l'item doit en satisfaire une), puis category
+ * (la première qui s'applique l'emporte). Chaque exclusion est journalisée
+ * avec le nom de la règle pour pouvoir ajuster la config sans toucher au code.
+ */
+
+import type { FilterRule, Source, SourceCategory } from './source-schema.js';
+
+export interface RuleItem {
+  title: string;
+  description: string;
+  url: string;
+}
+
+export interface RuleDecision {
+  keep: boolean;
+  category: SourceCategory;
+  /** Règle déterminante (exclusion ou changement de catégorie), avec sa portée */
+  rule: { name: string; scope: string } | null;
+  /** true si l'item est écarté faute de satisfaire une règle include */
+  missingInclude: boolean;
+}
+
+const matchers = new WeakMap<FilterRule, (item: RuleItem) => boolean>();
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Chemin de l'URL décodé (ex: "/fr/économie/20260303-..."), vide si l'URL est invalide
+ */
+function urlPath(url: string): string {
+  try {
+    const { pathname } = new URL(url);
+    try {
+      return decodeURIComponent(pathname);
+    } catch {
+      return pathname;
+    }
+  } catch {
+    return '';
+  }
+}
+
+function fieldValue(rule: FilterRule, item: RuleItem): string {
+  switch (rule.field || 'text') {
+    case 'title': return item.title;
+    case 'path': return urlPath(item.url);
+    case 'text': return `${item.title} ${item.description}`;
+  }
+}
+
+/**
+ * Compile une règle en fonction de test (mis en cache par règle)
+ */
+function compileRule(rule: FilterRule): (item: RuleItem) => boolean {
+  const cached = matchers.get(rule);
+  if (cached) return cached;
+
+  let matcher: (item: RuleItem) => boolean;
+  if (rule.pattern !== undefined) {
+    const regex = new RegExp(rule.pattern, 'i');
+    matcher = (item) => regex.test(fieldValue(rule, item));
+  } else {
+    // Whole words only: "ice" must not match "police"
+    const keywords = (rule.keywords || []).map(keyword =>
+      new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(keyword.trim())}(?![\\p{L}\\p{N}])`, 'iu')
+    );
+    const minMatches = rule.minMatches || 1;
+    matcher = (item) => {
+      const value = fieldValue(rule, item);
+      let count = 0;
+      for (const keyword of keywords) {
+        if (keyword.test(value) && ++count >= minMatches) return true;
+      }
+      return false;
+    };
+  }
+
+  matchers.set(rule, matcher);
+  return matcher;
+}
+
+/**
+ * Applique les règles de la source puis les règles globales à un item
+ */
+export function applyRules(item: RuleItem, source: Source, globalRules: FilterRule[] = []): RuleDecision {
+  const scoped = [
+    ...(source.rules || []).map(rule => ({ rule, scope: source.name })),
+    ...globalRules.map(rule => ({ rule, scope: 'global' })),
+  ];
+  const matches = ({ rule }: { rule: FilterRule }) => compileRule(rule)(item);
+
+  const excluded = scoped.find(r => r.rule.action === 'exclude' && matches(r));
+  if (excluded) {
+    return { keep: false, category: source.category, rule: { name: excluded.rule.name, scope: excluded.scope }, missingInclude: false };
+  }
+
+  const includes = scoped.filter(r => r.rule.action === 'include');
+  if (includes.length > 0 && !includes.some(matches)) {
+    return { keep: false, category: source.category, rule: null, missingInclude: true };
+  }
+
+  const recategorized = scoped.find(r => r.rule.action === 'category' && matches(r));
+  if (recategorized && recategorized.rule.category) {
+    return {
+      keep: true,
+      category: recategorized.rule.category,
+      rule: { name: recategorized.rule.name, scope: recategorized.scope },
+      missingInclude: false,
+    };
+  }
+
+  return { keep: true, category: source.category, rule: null, missingInclude: false };
+}
@@ -0,0 +1,297 @@
+/**
+ * Source Schema - Schéma et validation de config/sources.json
+ *
+ * Chaque source déclare au minimum name / url / category. Les champs
+ * optionnels décrivent la source (langue, pays, type de média, orientation)
+ * pour que le clustering et la synthèse raisonnent sur la diversité des
+ * sources, et `weight` pondère l'importance des clusters dans cluster.ts.
+ *
+ * Des règles de filtrage (`rules`) peuvent être déclarées globalement et par
+ * source : voir source-rules.ts. Le filtre thématique (`topicFilter`) écarte
+ * les items que le classifieur range dans un thème hors périmètre : voir
+ * topic-classifier.ts.
+ *
+ * La validation est faite au chargement : une config invalide arrête la
+ * curation avec la liste complète des erreurs.
+ */
+
+import { FEED_TYPES, type FeedType } from './feed-adapters.js';
+
+export type SourceCategory = 'geopolitique' | 'tech' | 'eco';
+
+/**
+ * Type de média : agence de presse, quotidien/média de référence, agrégateur/revue de presse
+ */
+export type SourceTier = 'wire' | 'reference' | 'aggregator';
+
+export type SourceLeaning = 'left' | 'center-left' | 'center' | 'center-right' | 'right';
+
+/**
+ * exclude : écarte l'item ; include : si la source (ou la config) a des règles
+ * include, l'item doit en satisfaire une ; category : change la catégorie de l'item
+ */
+export type RuleAction = 'exclude' | 'include' | 'category';
+
+/**
+ * Partie de l'item testée : titre, titre + description, ou chemin de l'URL (ex: "/sport/...")
+ */
+export type RuleField = 'title' | 'text' | 'path';
+
+export interface FilterRule {
+  /** Nom affiché dans les logs quand la règle s'applique */
+  name: string;
+  action: RuleAction;
+  /** Défaut: "text" */
+  field?: RuleField;
+  /** Mots-clés (insensibles à la casse, mots entiers) */
+  keywords?: string[];
+  /** Nombre de mots-clés distincts requis pour que la règle s'applique (défaut: 1) */
+  minMatches?: number;
+  /** Expression régulière (insensible à la casse), alternative à keywords */
+  pattern?: string;
+  /** Catégorie cible (action "category" uniquement) */
+  category?: SourceCategory;
+}
+
+export interface Source {
+  name: string;
+  url: string;
+  category: SourceCategory;
+  /** Format du flux (défaut: "rss", qui couvre aussi Atom) */
+  type?: FeedType;
+  /** Code ISO 639-1 de la langue du flux (ex: "fr", "en") */
+  language?: string;
+  /** Code ISO 3166-1 alpha-2 du pays du média (ex: "FR", "GB") */
+  country?: string;
+  tier?: SourceTier;
+  leaning?: SourceLeaning;
+  /** Poids dans le score d'importance des clusters (défaut: 1) */
+  weight?: number;
+  /** false pour désactiver la source sans la supprimer (défaut: true) */
+  enabled?: boolean;
+  /** Nombre maximum d'items retenus par passage */
+  maxItems?: number;
+  /** Langues acceptées pour les articles de ce flux (défaut: ["fr", "en"]) */
+  acceptedLanguages?: string[];
+  /** Règles propres à la source, appliquées avant les règles globales */
+  rules?: FilterRule[];
+}
+
+/**
+ * Items écartés selon le thème prédit par topic-classifier.ts
+ */
+export interface TopicFilter {
+  /** Thèmes écartés (ex: ["sport", "people"]) */
+  exclude: string[];
+  /** Avance minimale du thème prédit sur le premier thème conservé pour écarter l'item (0-1) */
+  minMargin: number;
+}
+
+export interface SourcesConfig {
+  /** Règles appliquées à toutes les sources */
+  rules?: FilterRule[];
+  topicFilter?: TopicFilter;
+  sources: Source[];
+}
+
+const CATEGORIES: SourceCategory[] = ['geopolitique', 'tech', 'eco'];
+const TIERS: SourceTier[] = ['wire', 'reference', 'aggregator'];
+const LEANINGS: SourceLeaning[] = ['left', 'center-left', 'center', 'center-right', 'right'];
+const RULE_ACTIONS: RuleAction[] = ['exclude', 'include', 'category'];
+const RULE_FIELDS: RuleField[] = ['title', 'text', 'path'];
+
+type FieldValidator = (value: unknown) => string | null;
+
+const isNonEmptyString: FieldValidator = (value) =>
+  typeof value === 'string' && value.trim().length > 0 ? null : 'doit être une chaîne non vide';
+
+const isHttpUrl: FieldValidator = (value) => {
+  if (typeof value !== 'string') return 'doit être une URL';
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? null : 'doit être une URL http(s)';
+  } catch {
+    return 'doit être une URL valide';
+  }
+};
+
+const isOneOf = (values: readonly string[]): FieldValidator => (value) =>
+  typeof value === 'string' && values.includes(value) ? null : `doit valoir ${values.join(' | ')}`;
+
+const matches = (pattern: RegExp, hint: string): FieldValidator => (value) =>
+  typeof value === 'string' && pattern.test(value) ? null : `doit être ${hint}`;
+
+const isPositiveNumber: FieldValidator = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'doit être un nombre > 0';
+
+const isPositiveInteger: FieldValidator = (value) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? null : 'doit être un entier > 0';
+
+const isLanguageList: FieldValidator = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && /^[a-z]{2}$/.test(v))
+    ? null
+    : 'doit être une liste non vide de codes langue ISO 639-1';
+
+const isBoolean: FieldValidator = (value) =>
+  typeof value === 'boolean' ? null : 'doit être un booléen';
+
+const isKeywordList: FieldValidator = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.trim().length > 0)
+    ? null
+    : 'doit être une liste non vide de mots-clés';
+
+const isRegex: FieldValidator = (value) => {
+  if (typeof value !== 'string' || value.length === 0) return 'doit être une expression régulière';
+  try {
+    new RegExp(value, 'i');
+    return null;
+  } catch (error) {
+    return `expression régulière invalide (${(error as Error).message})`;
+  }
+};
+
+const RULE_SCHEMA: Record<keyof FilterRule, { required: boolean; validate: FieldValidator }> = {
+  name: { required: true, validate: isNonEmptyString },
+  action: { required: true, validate: isOneOf(RULE_ACTIONS) },
+  field: { required: false, validate: isOneOf(RULE_FIELDS) },
+  keywords: { required: false, validate: isKeywordList },
+  minMatches: { required: false, validate: isPositiveInteger },
+  pattern: { required: false, validate: isRegex },
+  category: { required: false, validate: isOneOf(CATEGORIES) },
+};
+
+/**
+ * Valide un objet selon un schéma champ par champ (champs requis, valeurs, champs inconnus)
+ */
+function validateFields(
+  record: Record<string, unknown>,
+  schema: Record<string, { required: boolean; validate: FieldValidator }>,
+  label: string
+): string[] {
+  const errors: string[] = [];
+  for (const [field, { required, validate }] of Object.entries(schema)) {
+    const value = record[field];
+    if (value === undefined) {
+      if (required) errors.push(`${label}.${field}: champ requis`);
+      continue;
+    }
+    const error = validate(value);
+    if (error) errors.push(`${label}.${field}: ${error}`);
+  }
+
+  for (const field of Object.keys(record)) {
+    if (!(field in schema)) {
+      errors.push(`${label}.${field}: champ inconnu`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Valide une liste de règles de filtrage (globales ou propres à une source)
+ */
+function validateRules(value: unknown, label: string): string[] {
+  if (!Array.isArray(value)) return [`${label}: doit être une liste de règles`];
+
+  const errors: string[] = [];
+  value.forEach((entry, index) => {
+    const ruleLabel = `${label}[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${ruleLabel}: doit être un objet`);
+      return;
+    }
+
+    const rule = entry as Record<string, unknown>;
+    errors.push(...validateFields(rule, RULE_SCHEMA, ruleLabel));
+
+    if ((rule.keywords === undefined) === (rule.pattern === undefined)) {
+      errors.push(`${ruleLabel}: exactement un de "keywords" ou "pattern" attendu`);
+    }
+    if (rule.minMatches !== undefined && rule.keywords === undefined) {
+      errors.push(`${ruleLabel}.minMatches: uniquement avec "keywords"`);
+    }
+    if ((rule.action === 'category') !== (rule.category !== undefined)) {
+      errors.push(`${ruleLabel}.category: requis pour l'action "category" et uniquement pour elle`);
+    }
+  });
+  return errors;
+}
+
+const isProbability: FieldValidator = (value) =>
+  typeof value === 'number' && value > 0 && value <= 1 ? null : 'doit être un nombre entre 0 (exclu) et 1';
+
+const isTopicList: FieldValidator = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && /^[a-z-]+$/.test(v))
+    ? null
+    : 'doit être une liste non vide de thèmes (ex: ["sport", "people"])';
+
+const TOPIC_FILTER_SCHEMA: Record<keyof TopicFilter, { required: boolean; validate: FieldValidator }> = {
+  exclude: { required: true, validate: isTopicList },
+  minMargin: { required: true, validate: isProbability },
+};
+
+const SOURCE_SCHEMA: Record<keyof Source, { required: boolean; validate: FieldValidator }> = {
+  name: { required: true, validate: isNonEmptyString },
+  url: { required: true, validate: isHttpUrl },
+  category: { required: true, validate: isOneOf(CATEGORIES) },
+  type: { required: false, validate: isOneOf(FEED_TYPES) },
+  language: { required: false, validate: matches(/^[a-z]{2}$/, 'un code langue ISO 639-1 (ex: "fr")') },
+  country: { required: false, validate: matches(/^[A-Z]{2}$/, 'un code pays ISO 3166-1 (ex: "FR")') },
+  tier: { required: false, validate: isOneOf(TIERS) },
+  leaning: { required: false, validate: isOneOf(LEANINGS) },
+  weight: { required: false, validate: isPositiveNumber },
+  enabled: { required: false, validate: isBoolean },
+  maxItems: { required: false, validate: isPositiveInteger },
+  acceptedLanguages: { required: false, validate: isLanguageList },
+  // Validated separately (validateRules) for per-rule error messages
+  rules: { required: false, validate: () => null },
+};
+
+/**
+ * Valide le contenu brut de config/sources.json.
+ * Lève une erreur listant tous les problèmes trouvés.
+ */
+export function parseSourcesConfig(raw: unknown): SourcesConfig {
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as SourcesConfig).sources)) {
+    throw new Error('sources.json invalide: clé "sources" (tableau) attendue');
+  }
+
+  const { rules, topicFilter, sources } = raw as { rules?: unknown; topicFilter?: unknown; sources: unknown[] };
+  if (rules !== undefined) {
+    errors.push(...validateRules(rules, 'rules'));
+  }
+  if (topicFilter !== undefined) {
+    errors.push(...(typeof topicFilter === 'object' && topicFilter !== null
+      ? validateFields(topicFilter as Record<string, unknown>, TOPIC_FILTER_SCHEMA, 'topicFilter')
+      : ['topicFilter: doit être un objet']));
+  }
+
+  const seenUrls = new Set<string>();
+
+  sources.forEach((entry, index) => {
+    const label = `sources[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${label}: doit être un objet`);
+      return;
+    }
+
+    const record = entry as Record<string, unknown>;
+    errors.push(...validateFields(record, SOURCE_SCHEMA, label));
+    if (record.rules !== undefined) {
+      errors.push(...validateRules(record.rules, `${label}.rules`));
+    }
+
+    if (typeof record.url === 'string') {
+      if (seenUrls.has(record.url)) errors.push(`${label}.url: URL en double`);
+      seenUrls.add(record.url);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`sources.json invalide (${errors.length} erreur(s)):\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as SourcesConfig;
+}
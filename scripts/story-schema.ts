@@ -0,0 +1,362 @@
+/**
+ * Story Schema - Schéma et validation des stories synthétisées
+ *
+ * Deux niveaux de validation :
+ *   - parseStoryOutput : la réponse JSON du modèle (synthèse d'un cluster ou
+ *     d'un pool d'articles), avant toute construction de story
+ *   - validateStory : la story complète, juste avant l'écriture de
+ *     public/data/stories.json (une story invalide n'est jamais publiée)
+ *
+ * Les types publiés (Story, Location, Citation, GroundingReport...) sont ceux
+ * de src/types/index.ts, lus par le frontend : le schéma de validation
+ * (STORY_SCHEMA) est indexé sur leurs champs et ne peut pas s'en écarter.
+ *
+ * Contraintes de la réponse du modèle :
+ *   - category : une des catégories, ou "hors_sujet" avec une raison
+ *   - title : 60 caractères au plus
+ *   - bullets : exactement 5 phrases de 15 mots au plus
+ *   - location : lat (-90..90), lng (-180..180) et nom du lieu
+ *   - execSummary : texte non vide
+ *   - bulletSources / paragraphSources : pour chaque bullet et chaque
+ *     paragraphe de l'execSummary, les numéros (1..n) des articles du prompt
+ *     qui le soutiennent ; synthesize.ts les résout en citations { source, url }
+ *   - usedSources (synthèse d'un pool) : liste de noms de sources
+ *
+ * Les erreurs sont typées (StoryParseError : pas de JSON exploitable,
+ * StoryValidationError : JSON qui ne respecte pas le schéma) et listent
+ * chaque problème par champ, pour que synthesize.ts puisse redemander au
+ * modèle une réponse corrigée en lui citant les erreurs exactes.
+ */
+
+import type { StyleReport } from './style-lint.js';
+import type {
+  Category,
+  Citation,
+  Location,
+  Story as PublishedStory,
+  StoryCitations,
+} from '../src/types/index.js';
+
+export type { Category, Citation, Location, StoryCitations };
+
+export const CATEGORIES: Category[] = ['geopolitique', 'tech', 'eco'];
+
+/**
+ * Story en cours de synthèse : la story publiée et les champs internes,
+ * retirés avant publication
+ */
+export interface Story extends PublishedStory {
+  /** Catégorie du cluster, si le modèle a reclassé la story */
+  _clusterCategory?: Category;
+  /** Bilan du lint de style (style-lint.ts) */
+  _style?: StyleReport;
+}
+
+/**
+ * Réponse du modèle pour un sujet retenu
+ */
+export interface SynthesizedStory {
+  category: Category;
+  title: string;
+  location: Location;
+  bullets: string[];
+  execSummary: string;
+  /** Numéros des articles soutenant chaque bullet */
+  bulletSources: number[][];
+  /** Numéros des articles soutenant chaque paragraphe de l'execSummary */
+  paragraphSources: number[][];
+  /** Sources effectivement utilisées (synthèse d'un pool uniquement) */
+  usedSources?: string[];
+}
+
+/**
+ * Réponse du modèle pour un sujet hors périmètre
+ */
+export interface OffTopicStory {
+  category: 'hors_sujet';
+  reason?: string;
+}
+
+export type StoryOutput = SynthesizedStory | OffTopicStory;
+
+export const MAX_TITLE_LENGTH = 60;
+export const BULLET_COUNT = 5;
+export const MAX_BULLET_WORDS = 15;
+
+/**
+ * Réponse du modèle inexploitable ; `issues` liste les problèmes trouvés
+ */
+export class StoryOutputError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(`${message}:\n  - ${issues.join('\n  - ')}`);
+    this.name = new.target.name;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Réponse qui n'est pas un objet JSON
+ */
+export class StoryParseError extends StoryOutputError {}
+
+/**
+ * Objet JSON qui ne respecte pas le schéma
+ */
+export class StoryValidationError extends StoryOutputError {}
+
+type FieldValidator = (value: unknown) => string | null;
+
+const isNonEmptyString: FieldValidator = (value) =>
+  typeof value === 'string' && value.trim().length > 0 ? null : 'doit être une chaîne non vide';
+
+const isNumberBetween = (min: number, max: number): FieldValidator => (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? null
+    : `doit être un nombre entre ${min} et ${max}`;
+
+const isTitle: FieldValidator = (value) => {
+  if (typeof value !== 'string' || value.trim().length === 0) return 'doit être une chaîne non vide';
+  return value.length <= MAX_TITLE_LENGTH ? null : `${value.length} caractères (max ${MAX_TITLE_LENGTH})`;
+};
+
+const isStringList: FieldValidator = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.trim().length > 0)
+    ? null
+    : 'doit être une liste non vide de chaînes';
+
+const isHttpUrl: FieldValidator = (value) => {
+  if (typeof value !== 'string') return 'doit être une URL';
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? null : 'doit être une URL http(s)';
+  } catch {
+    return 'doit être une URL valide';
+  }
+};
+
+const isDate: FieldValidator = (value) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'doit être une date ISO 8601';
+
+const isStoryId: FieldValidator = (value) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}-\d{2}$/.test(value) ? null : 'doit être de la forme "AAAA-MM-JJ-NN"';
+
+const isCitationList = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(items =>
+    Array.isArray(items) &&
+    items.every(item => isNonEmptyString(item?.source) === null && isHttpUrl(item?.url) === null)
+  );
+
+const isCitations: FieldValidator = (value) => {
+  const citations = value as StoryCitations | null;
+  return typeof citations === 'object' && citations !== null && isCitationList(citations.bullets) && isCitationList(citations.execSummary)
+    ? null
+    : 'doit être { bullets, execSummary } : listes de citations { source, url }';
+};
+
+const isStoryIdList: FieldValidator = (value) =>
+  Array.isArray(value) && value.every(id => isStoryId(id) === null)
+    ? null
+    : 'doit être une liste d\'identifiants de stories';
+
+/**
+ * Nombre de mots (les signes de ponctuation isolés ne comptent pas)
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Erreurs des bullets : nombre exact, puis longueur de chacun
+ */
+function validateBullets(value: unknown, label: string): string[] {
+  if (!Array.isArray(value)) return [`${label}: doit être une liste de ${BULLET_COUNT} phrases`];
+
+  const errors: string[] = [];
+  if (value.length !== BULLET_COUNT) {
+    errors.push(`${label}: ${value.length} élément(s), exactement ${BULLET_COUNT} attendus`);
+  }
+  value.forEach((bullet, index) => {
+    if (typeof bullet !== 'string' || bullet.trim().length === 0) {
+      errors.push(`${label}[${index}]: doit être une phrase non vide`);
+      return;
+    }
+    const words = countWords(bullet);
+    if (words > MAX_BULLET_WORDS) {
+      errors.push(`${label}[${index}]: ${words} mots (max ${MAX_BULLET_WORDS}) : "${bullet}"`);
+    }
+  });
+  return errors;
+}
+
+function validateLocation(value: unknown, label: string): string[] {
+  if (typeof value !== 'object' || value === null) return [`${label}: doit être un objet { lat, lng, name }`];
+
+  const location = value as Record<string, unknown>;
+  return [
+    ['lat', isNumberBetween(-90, 90)],
+    ['lng', isNumberBetween(-180, 180)],
+    ['name', isNonEmptyString],
+  ].flatMap(([field, validate]) => {
+    const error = (validate as FieldValidator)(location[field as string]);
+    return error ? [`${label}.${field}: ${error}`] : [];
+  });
+}
+
+/**
+ * Paragraphes de l'execSummary (lignes non vides : style-lint.ts rétablit les lignes vides)
+ */
+export function summaryParagraphs(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Erreurs d'une liste de numéros d'articles par élément (bullet ou paragraphe)
+ */
+function validateSourceIndices(value: unknown, label: string, itemCount: number, articleCount?: number): string[] {
+  if (!Array.isArray(value)) return [`${label}: doit être une liste de listes de numéros d'articles`];
+
+  const errors: string[] = [];
+  if (value.length !== itemCount) {
+    errors.push(`${label}: ${value.length} élément(s), ${itemCount} attendus (un par élément, dans l'ordre)`);
+  }
+  value.forEach((indices, index) => {
+    const valid =
+      Array.isArray(indices) &&
+      indices.length > 0 &&
+      indices.every(i => Number.isInteger(i) && i >= 1 && (articleCount === undefined || i <= articleCount));
+    if (!valid) {
+      const range = articleCount === undefined ? '' : ` entre 1 et ${articleCount}`;
+      errors.push(`${label}[${index}]: doit être une liste non vide de numéros d'articles${range}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Erreurs d'une story (réponse du modèle ou story complète), champ par champ
+ */
+function validateStoryFields(
+  record: Record<string, unknown>,
+  schema: Record<string, { required: boolean; validate: FieldValidator }>
+): string[] {
+  const errors: string[] = [];
+  for (const [field, { required, validate }] of Object.entries(schema)) {
+    const value = record[field];
+    if (value === undefined) {
+      if (required) errors.push(`${field}: champ requis`);
+      continue;
+    }
+    const error = validate(value);
+    if (error) errors.push(`${field}: ${error}`);
+  }
+  if (record.location !== undefined) errors.push(...validateLocation(record.location, 'location'));
+  if (record.bullets !== undefined) errors.push(...validateBullets(record.bullets, 'bullets'));
+  return errors;
+}
+
+const isCategory: FieldValidator = (value) =>
+  typeof value === 'string' && (CATEGORIES as string[]).includes(value)
+    ? null
+    : `doit valoir ${CATEGORIES.join(' | ')} (ou "hors_sujet")`;
+
+// location, bullets and source indices are validated separately for per-item messages
+const OUTPUT_SCHEMA: Record<keyof SynthesizedStory, { required: boolean; validate: FieldValidator }> = {
+  category: { required: true, validate: isCategory },
+  title: { required: true, validate: isTitle },
+  location: { required: true, validate: () => null },
+  bullets: { required: true, validate: () => null },
+  execSummary: { required: true, validate: isNonEmptyString },
+  bulletSources: { required: true, validate: () => null },
+  paragraphSources: { required: true, validate: () => null },
+  usedSources: { required: false, validate: isStringList },
+};
+
+const STORY_SCHEMA: Record<keyof Story, { required: boolean; validate: FieldValidator }> = {
+  id: { required: true, validate: isStoryId },
+  category: { required: true, validate: isCategory },
+  _clusterCategory: { required: false, validate: isCategory },
+  _style: { required: false, validate: () => null },
+  title: { required: true, validate: isTitle },
+  imageUrl: { required: true, validate: isHttpUrl },
+  location: { required: true, validate: () => null },
+  bullets: { required: true, validate: () => null },
+  execSummary: { required: true, validate: isNonEmptyString },
+  sources: { required: true, validate: isStringList },
+  publishedAt: { required: true, validate: isDate },
+  threadId: { required: false, validate: isNonEmptyString },
+  previousStoryIds: { required: false, validate: isStoryIdList },
+  grounding: { required: false, validate: () => null },
+  citations: { required: false, validate: isCitations },
+};
+
+/**
+ * Objet JSON d'une réponse du modèle (blocs ```json tolérés)
+ */
+function parseJsonObject(text: string): Record<string, unknown> {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```json')) jsonText = jsonText.slice(7);
+  else if (jsonText.startsWith('```')) jsonText = jsonText.slice(3);
+  if (jsonText.endsWith('```')) jsonText = jsonText.slice(0, -3);
+  jsonText = jsonText.trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    throw new StoryParseError('Réponse non JSON', [(error as Error).message]);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new StoryParseError('Réponse non JSON', ['un objet JSON est attendu']);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Analyse et valide la réponse du modèle (`articleCount` : nombre d'articles
+ * numérotés dans le prompt, pour vérifier les numéros cités).
+ * Lève StoryParseError ou StoryValidationError listant tous les problèmes.
+ */
+export function parseStoryOutput(text: string, articleCount?: number): StoryOutput {
+  const record = parseJsonObject(text);
+
+  if (record.category === 'hors_sujet') {
+    return { category: 'hors_sujet', reason: typeof record.reason === 'string' ? record.reason : undefined };
+  }
+
+  const errors = validateStoryFields(record, OUTPUT_SCHEMA);
+  if (record.bulletSources !== undefined) {
+    const bulletCount = Array.isArray(record.bullets) ? record.bullets.length : 0;
+    errors.push(...validateSourceIndices(record.bulletSources, 'bulletSources', bulletCount, articleCount));
+  }
+  if (record.paragraphSources !== undefined) {
+    const paragraphCount = typeof record.execSummary === 'string' ? summaryParagraphs(record.execSummary).length : 0;
+    errors.push(...validateSourceIndices(record.paragraphSources, 'paragraphSources', paragraphCount, articleCount));
+  }
+  if (errors.length > 0) {
+    throw new StoryValidationError(`Story invalide (${errors.length} erreur(s))`, errors);
+  }
+
+  // Unknown fields are dropped rather than rejected: they never reach the edition
+  const { category, title, location, bullets, execSummary, bulletSources, paragraphSources, usedSources } =
+    record as unknown as SynthesizedStory;
+  return {
+    category,
+    title,
+    location: { lat: location.lat, lng: location.lng, name: location.name },
+    bullets,
+    execSummary,
+    bulletSources,
+    paragraphSources,
+    usedSources,
+  };
+}
+
+/**
+ * Erreurs d'une story complète (vide si la story peut être publiée)
+ */
+export function validateStory(story: Story): string[] {
+  return validateStoryFields(story as unknown as Record<string, unknown>, STORY_SCHEMA);
+}
@@ -0,0 +1,295 @@
+/**
+ * Story Threads - Suivi des sujets d'un jour sur l'autre (« fils » d'actualité)
+ *
+ * Chaque exécution de cluster.ts rapproche ses clusters des fils connus,
+ * persistés dans data/story-threads.json : un fil garde les entités et le
+ * centroïde TF-IDF (termes les plus lourds, normalisés) de sa dernière
+ * apparition. Un cluster assez proche d'un fil en reprend l'identifiant
+ * (`threadId`), sinon il ouvre un nouveau fil.
+ *
+ * synthesize.ts rattache ensuite chaque story à son fil : la story porte
+ * `threadId` et `previousStoryIds` (stories des éditions précédentes sur le
+ * même sujet), ce qui permet de traiter une suite comme telle (« suite de
+ * l'affaire ») plutôt que de l'exclure comme un doublon.
+ *
+ * Un fil sans nouvelle apparition depuis THREAD_RETENTION_DAYS jours est oublié.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { createHash } from 'crypto';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const THREADS_PATH = join(__dirname, '..', 'data', 'story-threads.json');
+
+export const THREAD_RETENTION_DAYS = 14;
+
+/**
+ * Similarité minimale entre un cluster et un fil pour le prolonger
+ */
+export const THREAD_MATCH_THRESHOLD = 0.3;
+
+/**
+ * Nombre de termes conservés dans le centroïde d'un fil
+ */
+const CENTROID_MAX_TERMS = 60;
+
+/**
+ * Poids de l'ancien centroïde quand un fil est prolongé (mémoire du sujet)
+ */
+const CENTROID_MEMORY = 0.5;
+
+export interface ThreadFeatures {
+  entities: string[];
+  /** Termes → poids, norme euclidienne 1 */
+  centroid: Record<string, number>;
+}
+
+export interface ThreadStory {
+  id: string;
+  title: string;
+  /** Date de l'édition (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface StoryThread extends ThreadFeatures {
+  id: string;
+  /** Titre de la dernière apparition (topic du cluster ou titre de story) */
+  title: string;
+  category: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Jours d'apparition (YYYY-MM-DD), du plus ancien au plus récent */
+  days: string[];
+  /** Stories publiées sur ce fil, de la plus ancienne à la plus récente */
+  stories: ThreadStory[];
+}
+
+export interface ThreadStore {
+  updatedAt: string;
+  threads: StoryThread[];
+}
+
+export interface ThreadCandidate {
+  key: string;
+  title: string;
+  category: string;
+  features: ThreadFeatures;
+}
+
+export interface ThreadMatch {
+  threadId: string;
+  /** true si le fil existait un jour précédent */
+  continued: boolean;
+  similarity: number;
+}
+
+export function loadThreads(path = THREADS_PATH): ThreadStore {
+  if (!existsSync(path)) return { updatedAt: new Date(0).toISOString(), threads: [] };
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    console.warn(`   ⚠ ${path} illisible, fils d'actualité réinitialisés`);
+    return { updatedAt: new Date(0).toISOString(), threads: [] };
+  }
+}
+
+export function saveThreads(store: ThreadStore, path = THREADS_PATH): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(store, null, 2), 'utf-8');
+}
+
+/**
+ * Retire les fils sans apparition depuis `retentionDays` jours
+ */
+export function pruneThreads(store: ThreadStore, now: Date, retentionDays = THREAD_RETENTION_DAYS): number {
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  const before = store.threads.length;
+  store.threads = store.threads.filter(thread => new Date(thread.lastSeenAt).getTime() >= cutoff);
+  return before - store.threads.length;
+}
+
+function normalize(weights: Map<string, number>): Record<string, number> {
+  const top = [...weights.entries()]
+    .filter(([, weight]) => weight > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, CENTROID_MAX_TERMS);
+  const norm = Math.sqrt(top.reduce((sum, [, weight]) => sum + weight * weight, 0));
+
+  const centroid: Record<string, number> = {};
+  for (const [term, weight] of top) {
+    centroid[term] = Math.round((weight / norm) * 1e4) / 1e4;
+  }
+  return centroid;
+}
+
+/**
+ * Caractéristiques d'un groupe d'articles : somme de leurs vecteurs
+ * (TF-IDF ou sacs de termes) réduite aux termes principaux, et entités
+ */
+export function threadFeatures(vectors: Map<string, number>[], entities: Iterable<string>): ThreadFeatures {
+  const sum = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) {
+      sum.set(term, (sum.get(term) || 0) + weight);
+    }
+  }
+  return { entities: [...new Set(entities)].sort(), centroid: normalize(sum) };
+}
+
+function cosine(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of Object.entries(a)) {
+    dot += weight * (b[term] || 0);
+  }
+  return dot; // Both centroids have unit norm
+}
+
+/**
+ * Similarité entre un candidat et un fil : centroïdes, renforcés par les
+ * entités partagées quand au moins deux coïncident (comme dans cluster.ts)
+ */
+export function threadSimilarity(features: ThreadFeatures, thread: ThreadFeatures): number {
+  const textSim = cosine(features.centroid, thread.centroid);
+  const shared = features.entities.filter(entity => thread.entities.includes(entity)).length;
+  if (shared < 2) return textSim;
+
+  const union = new Set([...features.entities, ...thread.entities]).size;
+  return Math.max(textSim, textSim * 0.5 + (shared / union) * 0.5);
+}
+
+function blend(previous: Record<string, number>, current: Record<string, number>): Record<string, number> {
+  const weights = new Map<string, number>();
+  for (const [term, weight] of Object.entries(previous)) {
+    weights.set(term, weight * CENTROID_MEMORY);
+  }
+  for (const [term, weight] of Object.entries(current)) {
+    weights.set(term, (weights.get(term) || 0) + weight * (1 - CENTROID_MEMORY));
+  }
+  return normalize(weights);
+}
+
+function newThreadId(candidate: ThreadCandidate, day: string): string {
+  const hash = createHash('sha256').update(`${candidate.category}:${candidate.title}`).digest('hex').slice(0, 6);
+  return `thread-${day}-${hash}`;
+}
+
+/**
+ * Fil le plus proche de caractéristiques données, sans modifier le magasin
+ */
+export function closestThread(
+  store: ThreadStore,
+  features: ThreadFeatures,
+  threshold = THREAD_MATCH_THRESHOLD
+): { thread: StoryThread; similarity: number } | null {
+  let best: { thread: StoryThread; similarity: number } | null = null;
+  for (const thread of store.threads) {
+    const similarity = threadSimilarity(features, thread);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { thread, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Rattache des candidats (clusters ou stories) aux fils connus puis met le
+ * magasin à jour : fils prolongés (centroïde mêlé à l'ancien, entités
+ * remplacées), nouveaux fils pour les autres.
+ *
+ * Les paires sont attribuées par similarité décroissante, un fil ne pouvant
+ * être prolongé que par un seul candidat par exécution. Relancer le même
+ * jour sur les mêmes données redonne les mêmes fils.
+ */
+export function assignThreads(
+  store: ThreadStore,
+  candidates: ThreadCandidate[],
+  now: Date,
+  threshold = THREAD_MATCH_THRESHOLD
+): Map<string, ThreadMatch> {
+  const day = now.toISOString().split('T')[0];
+  const keys = new Set(candidates.map(candidate => candidate.key));
+  if (keys.size !== candidates.length) {
+    throw new Error('assignThreads: clé de candidat en double, un candidat hériterait du fil d’un autre');
+  }
+  const pairs: { candidate: ThreadCandidate; thread: StoryThread; similarity: number }[] = [];
+  for (const candidate of candidates) {
+    for (const thread of store.threads) {
+      const similarity = threadSimilarity(candidate.features, thread);
+      if (similarity >= threshold) pairs.push({ candidate, thread, similarity });
+    }
+  }
+  pairs.sort((a, b) => b.similarity - a.similarity || a.thread.id.localeCompare(b.thread.id));
+
+  const matches = new Map<string, ThreadMatch>();
+  const claimed = new Set<string>();
+  for (const { candidate, thread, similarity } of pairs) {
+    if (matches.has(candidate.key) || claimed.has(thread.id)) continue;
+    claimed.add(thread.id);
+    matches.set(candidate.key, {
+      threadId: thread.id,
+      continued: thread.days[0] < day,
+      similarity: Math.round(similarity * 100) / 100,
+    });
+
+    thread.title = candidate.title;
+    thread.category = candidate.category;
+    thread.lastSeenAt = now.toISOString();
+    if (!thread.days.includes(day)) thread.days.push(day);
+    thread.entities = candidate.features.entities;
+    thread.centroid = blend(thread.centroid, candidate.features.centroid);
+  }
+
+  for (const candidate of candidates) {
+    if (matches.has(candidate.key)) continue;
+    const id = newThreadId(candidate, day);
+    matches.set(candidate.key, { threadId: id, continued: false, similarity: 0 });
+    store.threads.push({
+      id,
+      title: candidate.title,
+      category: candidate.category,
+      firstSeenAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      days: [day],
+      stories: [],
+      ...candidate.features,
+    });
+  }
+
+  store.updatedAt = now.toISOString();
+  return matches;
+}
+
+export function findThread(store: ThreadStore, threadId: string): StoryThread | null {
+  return store.threads.find(thread => thread.id === threadId) || null;
+}
+
+/**
+ * Stories des éditions précédentes d'un fil (celles du jour sont ignorées :
+ * une relance remplace l'édition du jour)
+ */
+export function previousStories(thread: StoryThread, day: string): ThreadStory[] {
+  return thread.stories.filter(story => story.date < day);
+}
+
+/**
+ * Oublie les stories d'une édition (avant de la régénérer)
+ */
+export function forgetStories(store: ThreadStore, day: string): void {
+  for (const thread of store.threads) {
+    thread.stories = thread.stories.filter(story => story.date !== day);
+  }
+}
+
+/**
+ * Enregistre une story sur son fil, en remplaçant celle de même id
+ */
+export function recordStory(thread: StoryThread, story: ThreadStory): void {
+  thread.stories = [...thread.stories.filter(s => s.id !== story.id), story];
+}
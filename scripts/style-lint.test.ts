@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { lintStory, countByRule, type StyleIssue } from './style-lint.js';
+import type { SynthesizedStory } from './story-schema.js';
+
+// About 60 words per paragraph, 245 in total: within SUMMARY_WORDS
+const FILLER = Array.from({ length: 48 }, () => 'mot').join(' ');
+const PARAGRAPHS = [
+  `Le gouvernement japonais a annoncé mardi un plan de relance de 90 milliards de dollars. ${FILLER}.`,
+  `Tokyo défend un soutien ciblé aux ménages face à la hausse des prix. ${FILLER}.`,
+  `L'opposition juge le plan trop tardif et réclame une baisse de la TVA. ${FILLER}.`,
+  `La Banque du Japon devra arbitrer entre inflation et croissance dès avril. ${FILLER}.`,
+];
+
+function story(overrides: Partial<SynthesizedStory> = {}): SynthesizedStory {
+  return {
+    category: 'eco',
+    title: 'Le Japon lance un plan de relance de 90 milliards',
+    location: { lat: 35.68, lng: 139.69, name: 'Tokyo' },
+    bullets: [
+      'Le gouvernement annonce un plan de 90 milliards de dollars',
+      'Les ménages recevront une aide ciblée contre la hausse des prix',
+      "L'opposition réclame une baisse de la TVA",
+      'La Banque du Japon surveille une inflation persistante',
+      'Des élections sénatoriales se tiennent en juillet',
+    ],
+    execSummary: PARAGRAPHS.join('\n\n'),
+    bulletSources: [[1], [1], [2], [1, 2], [2]],
+    paragraphSources: [[1], [1], [2], [1, 2]],
+    ...overrides,
+  };
+}
+
+function rules(issues: StyleIssue[]): string[] {
+  return issues.map(issue => `${issue.rule} ${issue.field}`);
+}
+
+describe('lintStory', () => {
+  it('leaves a story that follows every rule untouched', () => {
+    const input = story();
+    expect(lintStory(input)).toEqual({ story: input, fixed: [], issues: [] });
+  });
+});
+
+describe('long-dash', () => {
+  it('turns ranges into hyphens and asides into commas', () => {
+    const result = lintStory(story({
+      title: 'Le Japon relance — encore — son économie',
+      bullets: [
+        'Le plan couvre les années 2026–2028',
+        ...story().bullets.slice(1),
+      ],
+    }));
+
+    expect(result.story.title).toBe('Le Japon relance, encore, son économie');
+    expect(result.story.bullets[0]).toBe('Le plan couvre les années 2026-2028');
+    expect(rules(result.fixed)).toEqual(['long-dash title', 'long-dash bullets[0]']);
+    expect(result.issues).toEqual([]);
+  });
+});
+
+describe('uppercase-article', () => {
+  it('capitalizes at the start of a sentence and lowercases elsewhere', () => {
+    const result = lintStory(story({
+      title: 'LE Japon soutient LA Banque du Japon',
+    }));
+
+    expect(result.story.title).toBe('Le Japon soutient la Banque du Japon');
+    expect(rules(result.fixed)).toEqual(['uppercase-article title']);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('keeps acronyms', () => {
+    const input = story({ title: 'Le FMI salue le plan de la BCE' });
+    expect(lintStory(input).fixed).toEqual([]);
+  });
+});
+
+describe('bullet-article', () => {
+  it('reports bullets that do not start with an article or determiner', () => {
+    const bullets = [...story().bullets];
+    bullets[2] = 'Tokyo débloque 90 milliards de dollars';
+    const result = lintStory(story({ bullets }));
+
+    expect(result.story.bullets).toEqual(bullets);
+    expect(result.fixed).toEqual([]);
+    expect(rules(result.issues)).toEqual(['bullet-article bullets[2]']);
+    expect(result.issues[0].message).toContain('Tokyo débloque');
+  });
+
+  it('accepts bullets opening on a figure, a spelled-out cardinal or a quantifier', () => {
+    const bullets = [
+      '2 000 manifestants défilent devant le Parlement',
+      'Trois pays rejoignent la coalition',
+      'Près de 300 entreprises bénéficient du dispositif',
+      'Plus de la moitié des ménages sont concernés',
+      'Quelques élus réclament une baisse de la TVA',
+    ];
+    expect(lintStory(story({ bullets })).issues).toEqual([]);
+  });
+
+  it('still reports a bullet opening on a word that only looks like a cardinal', () => {
+    const bullets = [...story().bullets];
+    bullets[1] = 'Septembre marque la fin du dispositif';
+    expect(rules(lintStory(story({ bullets })).issues)).toEqual(['bullet-article bullets[1]']);
+  });
+});
+
+describe('generic-stakes-opener', () => {
+  it('reports a stakes paragraph opening on a stock phrase', () => {
+    const paragraphs = [...PARAGRAPHS];
+    paragraphs[3] = `Les enjeux de ce plan sont considérables pour Tokyo. ${FILLER}.`;
+    const result = lintStory(story({ execSummary: paragraphs.join('\n\n') }));
+
+    expect(rules(result.issues)).toEqual(['generic-stakes-opener execSummary']);
+    expect(result.issues[0].message).toContain('Les enjeux de ce plan sont considérables');
+  });
+
+  it('only checks the stakes paragraph', () => {
+    const paragraphs = [...PARAGRAPHS];
+    paragraphs[0] = `Les conséquences sont nombreuses pour les ménages japonais. ${FILLER}.`;
+    expect(lintStory(story({ execSummary: paragraphs.join('\n\n') })).issues).toEqual([]);
+  });
+});
+
+describe('paragraph-count', () => {
+  it('separates 4 paragraphs joined by single line breaks', () => {
+    const result = lintStory(story({ execSummary: PARAGRAPHS.join('\n') }));
+
+    expect(result.story.execSummary).toBe(PARAGRAPHS.join('\n\n'));
+    expect(rules(result.fixed)).toEqual(['paragraph-count execSummary']);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('reports a summary with another number of paragraphs', () => {
+    const execSummary = [PARAGRAPHS[0], PARAGRAPHS[1], `${PARAGRAPHS[2]} ${PARAGRAPHS[3]}`].join('\n\n');
+    const result = lintStory(story({ execSummary }));
+
+    expect(result.story.execSummary).toBe(execSummary);
+    expect(rules(result.issues)).toEqual(['paragraph-count execSummary']);
+    expect(result.issues[0].message).toMatch(/^3 paragraphe\(s\), 4 attendus/);
+  });
+});
+
+describe('summary-length', () => {
+  it('reports a summary that is too short', () => {
+    const execSummary = PARAGRAPHS.map(p => p.replace(FILLER, 'mot')).join('\n\n');
+    const result = lintStory(story({ execSummary }));
+
+    expect(rules(result.issues)).toEqual(['summary-length execSummary']);
+    expect(result.issues[0].message).toBe('57 mots (attendu : 200 à 350)');
+  });
+
+  it('reports a summary that is too long', () => {
+    const execSummary = PARAGRAPHS.map(p => `${p} ${FILLER}.`).join('\n\n');
+    const result = lintStory(story({ execSummary }));
+
+    expect(rules(result.issues)).toEqual(['summary-length execSummary']);
+    expect(result.issues[0].message).toMatch(/^437 mots/);
+  });
+});
+
+describe('countByRule', () => {
+  it('counts issues per rule, in order of first appearance', () => {
+    const issues: StyleIssue[] = [
+      { rule: 'long-dash', field: 'title', message: '' },
+      { rule: 'bullet-article', field: 'bullets[1]', message: '' },
+      { rule: 'long-dash', field: 'execSummary', message: '' },
+    ];
+    expect(countByRule(issues)).toBe('long-dash: 2, bullet-article: 1');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Style Lint - Vérification des règles de français des stories synthétisées
+ *
+ * Les prompts de synthesize.ts imposent des règles de rédaction que rien ne
+ * vérifiait ensuite. Ce linter déterministe les contrôle sur la réponse du
+ * modèle (déjà validée par story-schema.ts) :
+ *
+ *   - long-dash             : pas de tiret cadratin ou demi-cadratin (titre, bullets, résumé)
+ *   - uppercase-article     : pas d'article en majuscules ("LA Russie")
+ *   - bullet-article        : chaque bullet commence par un article, un déterminant
+ *                             ou une quantité (« 2 000 », « Trois », « Près de »)
+ *   - generic-stakes-opener : le paragraphe Enjeux ne s'ouvre pas sur « Les enjeux sont considérables »
+ *   - paragraph-count       : execSummary en 4 paragraphes
+ *   - summary-length        : execSummary de SUMMARY_WORDS.min à SUMMARY_WORDS.max mots
+ *
+ * Les limites du titre et des bullets (caractères, mots) sont celles du
+ * schéma (story-schema.ts) : une réponse qui les dépasse n'arrive pas ici.
+ *
+ * Les problèmes triviaux sont corrigés sur place (tirets, casse, paragraphes
+ * séparés par un seul saut de ligne) ; les autres sont renvoyés par
+ * synthesize.ts au modèle pour une réécriture ciblée, et résumés dans le
+ * rapport de fin de synthèse.
+ */
+
+import { countWords, type SynthesizedStory } from './story-schema.js';
+
+export type StyleRule =
+  | 'long-dash'
+  | 'uppercase-article'
+  | 'bullet-article'
+  | 'generic-stakes-opener'
+  | 'paragraph-count'
+  | 'summary-length';
+
+export interface StyleIssue {
+  rule: StyleRule;
+  /** Champ concerné (ex: "title", "bullets[2]", "execSummary") */
+  field: string;
+  message: string;
+}
+
+export interface StyleLintResult {
+  /** Story avec les corrections automatiques appliquées */
+  story: SynthesizedStory;
+  /** Problèmes corrigés automatiquement */
+  fixed: StyleIssue[];
+  /** Problèmes à faire réécrire par le modèle */
+  issues: StyleIssue[];
+}
+
+/**
+ * Bilan de style d'une story : corrections automatiques, réécritures
+ * demandées au modèle, problèmes restant après la dernière tentative
+ */
+export interface StyleReport {
+  fixed: StyleIssue[];
+  rewritten: StyleIssue[];
+  remaining: StyleIssue[];
+}
+
+export const SUMMARY_PARAGRAPHS = 4;
+
+/**
+ * Tolérance autour des 250-300 mots demandés par les prompts
+ */
+export const SUMMARY_WORDS = { min: 200, max: 350 };
+
+const LONG_DASH = /[–—]/;
+
+const UPPERCASE_ARTICLE = /(^|[\s("«])(LE|LA|LES|UN|UNE|DES|DU|AU|AUX)(?=\s+\p{Lu}\p{Ll})/gu;
+
+// Articles and determiners, but also figures ("2 000 manifestants"), spelled-out
+// cardinals ("Trois pays") and quantifiers ("Près de 300 morts")
+const BULLET_START =
+  /^(?:[LD]['’]|\d|(?:Le|La|Les|Un|Une|Des|De|Du|Au|Aux|Ce|Cet|Cette|Ces|Son|Sa|Ses|Leur|Leurs|Plusieurs|Chaque|Aucun|Aucune|Tout|Toute|Tous|Toutes|Deux|Trois|Quatre|Cinq|Six|Sept|Huit|Neuf|Dix|Onze|Douze|Quinze|Vingt|Trente|Quarante|Cinquante|Soixante|Cent|Mille|Quelques?|Certains|Certaines|Nombre de|Nombreux|Nombreuses|Beaucoup de|Environ|Entre|Près de|Plus de|Moins de|Jusqu['’]à)\s)/;
+
+const GENERIC_STAKES_OPENER =
+  /^(?:les|ces|de tels?)\s+(?:enjeux|conséquences|implications|répercussions|retombées)\b[^.]{0,60}?\b(?:sont|restent|s'annoncent|s’annoncent|semblent|apparaissent|demeurent|pourraient être)\s+(?:\p{L}+\s+)?(?:considérables|majeur(?:e)?s|importante?s|immenses|multiples|nombreu(?:x|ses)|énormes|cruciaux|cruciales|colossaux|profonds|lourds|significatifs|inédits)\b/iu;
+
+/**
+ * Remplace les tirets longs : intervalles ("2020–2024") par un trait
+ * d'union, incises et liaisons par une virgule
+ */
+function replaceLongDashes(text: string): string {
+  return text
+    .replace(/(\d)\s*[–—]\s*(\d)/g, '$1-$2')
+    .replace(/^\s*[–—]\s*/gm, '')
+    .replace(/\s*[–—]\s*/g, ', ')
+    .replace(/,\s*([.,;:!?)])/g, '$1');
+}
+
+/**
+ * "LA Russie" → "La Russie" en début de phrase, "la Russie" ailleurs
+ */
+function fixUppercaseArticles(text: string): string {
+  return text.replace(UPPERCASE_ARTICLE, (_, before: string, article: string, offset: number) => {
+    const sentenceStart = /(^|[.!?])\s*$/.test(text.slice(0, offset + before.length));
+    const lower = article.toLowerCase();
+    return before + (sentenceStart ? lower[0].toUpperCase() + lower.slice(1) : lower);
+  });
+}
+
+function paragraphsOf(text: string): string[] {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+}
+
+/**
+ * Vérifie une réponse du modèle ; corrige les problèmes triviaux et renvoie
+ * les autres
+ */
+export function lintStory(input: SynthesizedStory): StyleLintResult {
+  const fixed: StyleIssue[] = [];
+  const issues: StyleIssue[] = [];
+
+  // Trivial fixes on every text field, each recorded once per field
+  const fixText = (text: string, field: string): string => {
+    let result = text;
+    if (LONG_DASH.test(result)) {
+      result = replaceLongDashes(result);
+      fixed.push({ rule: 'long-dash', field, message: 'tiret long remplacé' });
+    }
+    const recased = fixUppercaseArticles(result);
+    if (recased !== result) {
+      result = recased;
+      fixed.push({ rule: 'uppercase-article', field, message: 'article en majuscules corrigé' });
+    }
+    return result;
+  };
+
+  const story: SynthesizedStory = {
+    ...input,
+    title: fixText(input.title, 'title'),
+    bullets: input.bullets.map((bullet, index) => fixText(bullet, `bullets[${index}]`)),
+    execSummary: fixText(input.execSummary, 'execSummary'),
+  };
+
+  story.bullets.forEach((bullet, index) => {
+    if (!BULLET_START.test(bullet.trim())) {
+      issues.push({
+        rule: 'bullet-article',
+        field: `bullets[${index}]`,
+        message: `ne commence pas par un article ou un déterminant (Le, La, Les, L', Un, Une, Des, De...) : "${bullet}"`,
+      });
+    }
+  });
+
+  let paragraphs = paragraphsOf(story.execSummary);
+  if (paragraphs.length !== SUMMARY_PARAGRAPHS) {
+    const lines = story.execSummary.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    if (lines.length === SUMMARY_PARAGRAPHS) {
+      story.execSummary = lines.join('\n\n');
+      paragraphs = lines;
+      fixed.push({ rule: 'paragraph-count', field: 'execSummary', message: 'paragraphes séparés par une ligne vide' });
+    } else {
+      issues.push({
+        rule: 'paragraph-count',
+        field: 'execSummary',
+        message: `${paragraphs.length} paragraphe(s), ${SUMMARY_PARAGRAPHS} attendus (Faits, deux positions ou contexte et réactions, Enjeux), séparés par une ligne vide`,
+      });
+    }
+  }
+
+  const stakes = paragraphs.length >= SUMMARY_PARAGRAPHS ? paragraphs[SUMMARY_PARAGRAPHS - 1] : null;
+  const opener = stakes?.match(GENERIC_STAKES_OPENER);
+  if (opener) {
+    issues.push({
+      rule: 'generic-stakes-opener',
+      field: 'execSummary',
+      message: `le paragraphe Enjeux s'ouvre sur une formule générique ("${opener[0]}") : ouvrir sur l'enjeu concret le plus saillant`,
+    });
+  }
+
+  const words = countWords(story.execSummary);
+  if (words < SUMMARY_WORDS.min || words > SUMMARY_WORDS.max) {
+    issues.push({
+      rule: 'summary-length',
+      field: 'execSummary',
+      message: `${words} mots (attendu : ${SUMMARY_WORDS.min} à ${SUMMARY_WORDS.max})`,
+    });
+  }
+
+  return { story, fixed, issues };
+}
+
+/**
+ * Décompte par règle, ex: "long-dash: 2, bullet-article: 1"
+ */
+export function countByRule(issues: StyleIssue[]): string {
+  const counts = new Map<StyleRule, number>();
+  for (const issue of issues) counts.set(issue.rule, (counts.get(issue.rule) || 0) + 1);
+  return [...counts].map(([rule, count]) => `${rule}: ${count}`).join(', ');
+}
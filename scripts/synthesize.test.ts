@@ -0,0 +1,97 @@
+import { execFile } from 'child_process';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { validateStory, type Story } from './story-schema.js';
+import type { ThreadStore } from './story-threads.js';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const FIXTURES_DIR = join(ROOT, 'fixtures', 'llm');
+const TSX = join(ROOT, 'node_modules', '.bin', 'tsx');
+
+let dataDir: string;
+
+/**
+ * Runs synthesize.ts in replay mode on a copy of fixtures/llm, without any API key
+ */
+async function replay(): Promise<{ output: string; stories: Story[] }> {
+  const { stdout, stderr } = await promisify(execFile)(
+    TSX,
+    [
+      join(ROOT, 'scripts', 'synthesize.ts'),
+      '--llm=replay',
+      `--recordings=${join(FIXTURES_DIR, 'recordings.json')}`,
+      `--data-dir=${dataDir}`,
+      `--output=${join(dataDir, 'stories.json')}`,
+    ],
+    { cwd: ROOT, env: { PATH: process.env.PATH }, timeout: 60_000 }
+  );
+  const edition = JSON.parse(readFileSync(join(dataDir, 'stories.json'), 'utf-8')) as { stories: Story[] };
+  return { output: stdout + stderr, stories: edition.stories };
+}
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'avactu-synthesize-'));
+  for (const file of ['clustered-articles.json', 'raw-articles.json']) {
+    copyFileSync(join(FIXTURES_DIR, file), join(dataDir, file));
+  }
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('synthesize --llm=replay', () => {
+  it('rebuilds the edition from the recorded responses, clusters and pool alike', async () => {
+    const { output, stories } = await replay();
+
+    expect(stories.map(s => [s.category, s.title])).toEqual([
+      ['geopolitique', 'Soudan : une trêve de 72 heures à El-Fasher'],
+      ['geopolitique', 'Mer de Chine : collision près de Second Thomas Shoal'],
+      ['geopolitique', 'Le Niger rouvre sa frontière avec le Bénin'],
+      ['tech', "DMA : Bruxelles inflige 1,2 milliard d'euros à Meta"],
+      ['eco', 'La BCE maintient ses taux à 2 % malgré le ralentissement'],
+    ]);
+    for (const story of stories) {
+      expect(validateStory(story)).toEqual([]);
+      expect(story.grounding?.status).toBe('grounded');
+      expect(story.threadId).toBeDefined();
+    }
+    // Rewritten after the style lint, as recorded
+    expect(output).toContain('réécriture demandée (bullet-article: 1)');
+    expect(stories[3].bullets[2]).toBe("L'entreprise dispose de 60 jours pour se mettre en conformité");
+    // Pool story: citations resolved against the pool articles
+    expect(stories[4].sources).toEqual(['Les Échos', 'BBC Business']);
+    expect(stories[4].citations?.bullets[0].map(c => c.source)).toEqual(['Les Échos', 'BBC Business']);
+    expect(existsSync(join(dataDir, 'story-threads.json'))).toBe(true);
+  }, 60_000);
+
+  it('dates the edition and its threads by the clustering reference time, not the clock', async () => {
+    const { stories } = await replay();
+
+    expect(stories.map(s => s.id)).toEqual(['2026-10-18-01', '2026-10-18-02', '2026-10-18-03', '2026-10-18-04', '2026-10-18-05']);
+    const threads = JSON.parse(readFileSync(join(dataDir, 'story-threads.json'), 'utf-8')) as ThreadStore;
+    expect(threads.threads.flatMap(t => t.stories.map(s => s.date))).toEqual(Array(5).fill('2026-10-18'));
+    expect(threads.threads.every(t => t.days.includes('2026-10-18'))).toBe(true);
+  }, 60_000);
+
+  it('skips a story whose prompt was not recorded', async () => {
+    const clusteredPath = join(dataDir, 'clustered-articles.json');
+    const clustered = JSON.parse(readFileSync(clusteredPath, 'utf-8'));
+    clustered.clusters[2].articles[0].description += ' Le trafic reprend lentement.';
+    writeFileSync(clusteredPath, JSON.stringify(clustered), 'utf-8');
+
+    const { output, stories } = await replay();
+
+    expect(output).toContain('Aucune réponse enregistrée');
+    // The éco pool prompt lists the titles of the run, so it changes too
+    expect(stories.map(s => s.title)).toEqual([
+      'Soudan : une trêve de 72 heures à El-Fasher',
+      'Mer de Chine : collision près de Second Thomas Shoal',
+      "DMA : Bruxelles inflige 1,2 milliard d'euros à Meta",
+    ]);
+  }, 60_000);
+});
@@ -3,17 +3,88 @@
  *
  * Usage: npm run synthesize
  *
+ *        npm run synthesize -- --llm=record   (enregistre les réponses des modèles)
+ *        npm run synthesize -- --llm=replay   (rejoue les réponses, sans réseau)
+ *        npm run synthesize -- --data-dir=chemin --output=chemin/stories.json
+ *
+ * En modes record et replay, les prompts ne dépendent que des fichiers
+ * d'entrée : les titres récents de Supabase (diversité des pools) ne sont pas
+ * chargés, sans quoi les requêtes rejouées ne correspondraient plus aux
+ * enregistrements. Les pauses entre appels sont supprimées en replay.
+ *
  * Prérequis:
- *   - ANTHROPIC_API_KEY dans les variables d'environnement
- *   - data/clustered-articles.json généré par npm run cluster
+ *   - la clé API du fournisseur de chaque tâche (config/models.ts, ex:
+ *     ANTHROPIC_API_KEY), sauf en mode replay
+ *   - data/clustered-articles.json généré par npm run cluster (ou
+ *     <data-dir>/clustered-articles.json et raw-articles.json)
+ *
+ * Les modèles sont appelés via llm-client.ts, qui choisit le fournisseur de
+ * la synthèse et du juge de grounding selon MODEL_ROUTES.
+ *
+ * Toutes les catégories passent par la synthèse multi-sources des clusters
+ * (synthesizeStory) ; le pool d'articles de la catégorie (synthesizeFromPool)
+ * ne sert que si les clusters ne suffisent pas.
+ *
+ * Chaque réponse du modèle est validée par story-schema.ts : une réponse
+ * invalide lui est renvoyée avec la liste exacte des erreurs (jusqu'à
+ * MAX_REPAIR_ATTEMPTS fois), et une story invalide n'est jamais écrite dans
+ * public/data/stories.json. Les règles de français des prompts sont ensuite
+ * vérifiées par style-lint.ts : corrections automatiques des cas triviaux,
+ * réécriture demandée au modèle pour les autres (MAX_STYLE_REWRITES fois, une
+ * réécriture inexploitable laisse la version précédente), bilan en fin de
+ * synthèse.
+ * Enfin, grounding.ts vérifie que chiffres, acteurs et citations figurent
+ * dans les articles fournis : la story garde son rapport `grounding`, et une
+ * story trop peu sourcée est écartée.
+ *
+ * Le modèle indique pour chaque bullet et chaque paragraphe les numéros des
+ * articles qui le soutiennent ; ils sont résolus en citations { source, url }
+ * (`citations`) que le lecteur peut ouvrir depuis la carte.
+ *
+ * Chaque story est rattachée à son fil d'actualité (voir story-threads.ts) :
+ * `threadId` et `previousStoryIds`. Un cluster qui prolonge un fil déjà
+ * publié est synthétisé comme une suite (développements nouveaux).
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { MODELS } from '../config/models.js';
+import { MODEL_ROUTES, type LlmTask } from '../config/models.js';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { isValidEditorialImage } from './image-validation.js';
+import { keyParagraphs } from './article-body.js';
+import { termCounts, entityKeys } from './text-features.js';
+import {
+  assignThreads,
+  findThread,
+  forgetStories,
+  loadThreads,
+  previousStories,
+  recordStory,
+  saveThreads,
+  threadFeatures,
+  type ThreadFeatures,
+  type ThreadStory,
+} from './story-threads.js';
+import {
+  parseStoryOutput,
+  validateStory,
+  StoryOutputError,
+  type Category,
+  type Story,
+  type SynthesizedStory,
+  type OffTopicStory,
+  type StoryCitations,
+} from './story-schema.js';
+import { lintStory, countByRule, type StyleIssue, type StyleReport } from './style-lint.js';
+import { checkGrounding, type GroundingJudge, type GroundingSource } from './grounding.js';
+import {
+  createLlmClient,
+  parseLlmArgs,
+  loadRecordings,
+  saveRecordings,
+  type LlmClient,
+  type LlmMessage,
+} from './llm-client.js';
 import { createClient } from '@supabase/supabase-js';
 
 // ES Module __dirname equivalent
@@ -31,6 +102,13 @@ interface RawArticle {
   category: 'geopolitique' | 'tech' | 'eco';
   publishedAt: string;
   fetchedAt: string;
+  sourceLanguage?: string;
+  sourceCountry?: string;
+  sourceTier?: 'wire' | 'reference' | 'aggregator';
+  sourceLeaning?: string;
+  sourceWeight?: number;
+  bodyText?: string;
+  paywalled?: boolean;
 }
 
 interface ArticleCluster {
@@ -39,41 +117,54 @@ interface ArticleCluster {
   category: 'geopolitique' | 'tech' | 'eco';
   importance: number;
   articles: RawArticle[];
+  threadId?: string;
 }
 
 interface ClusteredInput {
   generatedAt: string;
+  /** Date de référence du clustering (absente des fichiers antérieurs) */
+  referenceTime?: string;
   clusterCount: number;
   clusters: ArticleCluster[];
 }
 
-interface Location {
-  lat: number;
-  lng: number;
-  name: string;
-}
-
-interface Story {
-  id: string;
-  category: 'geopolitique' | 'tech' | 'eco';
-  _clusterCategory?: 'geopolitique' | 'tech' | 'eco';
-  title: string;
-  imageUrl: string;
-  location: Location;
-  bullets: string[];
-  execSummary: string;
-  sources: string[];
-  publishedAt: string;
-}
-
 interface Edition {
   date: string;
   stories: Story[];
 }
 
+// One client per task, routed by config/models.ts
+type LlmClients = Record<LlmTask, LlmClient>;
+
 // Constants
-const CLUSTERED_PATH = join(__dirname, '..', 'data', 'clustered-articles.json');
+const DATA_DIR = join(__dirname, '..', 'data');
 const STORIES_PATH = join(__dirname, '..', 'public', 'data', 'stories.json');
+// Pause entre deux synthèses (limites de débit des API)
+const API_PAUSE_MS = 1500;
+// Stories par catégorie, synthétisées depuis les clusters puis, à défaut, depuis le pool d'articles
+const STORY_TARGETS: Record<Category, number> = {
+  geopolitique: 3,
+  tech: 1,
+  eco: 1,
+};
+// Un cluster tech/éco d'une seule source donne une story plus pauvre que le pool
+const MIN_CLUSTER_SOURCES: Record<Category, number> = {
+  geopolitique: 1,
+  tech: 2,
+  eco: 2,
+};
+const CATEGORY_LABELS: Record<Category, string> = {
+  geopolitique: '🌍 Géopolitique',
+  tech: '💻 Tech',
+  eco: '💰 Éco',
+};
+// Budget d'extraits d'articles (bodyText) par prompt, réparti entre les articles du cluster
+const MAX_EXCERPTS_LENGTH = 9000;
+const MAX_EXCERPT_LENGTH = 1500;
+// Nouvelles demandes au modèle quand sa réponse ne respecte pas le schéma
+const MAX_REPAIR_ATTEMPTS = 2;
+// Réécritures demandées au modèle quand sa réponse ne respecte pas les règles de style
+const MAX_STYLE_REWRITES = 2;
 
 /**
  * Fetch recent story titles by category from newsletter_editions (last N days)
@@ -125,7 +216,32 @@ function titleSimilarity(title1: string, title2: string): number {
 }
 
 /**
- * Retry wrapper for Claude API calls with exponential backoff
+ * Source label with its profile from config/sources.json, e.g. "Reuters - World, agence, GB, center"
+ * Lets the model weigh the diversity of perspectives (country, type of outlet, leaning)
+ */
+function describeSource(article: RawArticle): string {
+  const TIER_LABELS = { wire: 'agence', reference: 'média de référence', aggregator: 'revue de presse' };
+  const details = [
+    article.sourceTier && TIER_LABELS[article.sourceTier],
+    article.sourceCountry,
+    article.sourceLeaning,
+  ].filter(Boolean);
+  return details.length > 0 ? `${article.source}, ${details.join(', ')}` : article.source;
+}
+
+/**
+ * Key paragraphs of the article body, when the curator extracted it (--full-text)
+ */
+function describeBody(article: RawArticle, maxLength: number): string {
+  if (!article.bodyText) return '';
+  const excerpt = keyParagraphs(article.bodyText, article.description, maxLength);
+  if (!excerpt) return '';
+  const label = article.paywalled ? 'Extrait (article payant, début seulement)' : 'Extrait';
+  return `${label}:\n${excerpt}\n`;
+}
+
+/**
+ * Retry wrapper for LLM calls with exponential backoff
  */
 async function withRetry<T>(
   fn: () => Promise<T>,
@@ -152,6 +268,149 @@ async function withRetry<T>(
   throw new Error(`${label} failed after ${maxRetries + 1} attempts`);
 }
 
+/**
+ * Re-prompt listing the exact problems of the previous answer
+ */
+function describeRepair(intro: string, issues: string[]): string {
+  return `${intro} :
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Corrige uniquement ces points et renvoie le JSON complet, sans texte avant ou après.`;
+}
+
+/**
+ * Ask the model for a story, validate its answer against the shared schema (cited article
+ * numbers within 1..articleCount), then lint its style.
+ * An invalid answer is sent back with its validation errors, up to MAX_REPAIR_ATTEMPTS
+ * times; after that the typed error (StoryParseError / StoryValidationError) is thrown.
+ * Style issues that can't be auto-fixed are sent back the same way, up to MAX_STYLE_REWRITES
+ * times; the last answer is kept with its remaining issues in its style report.
+ * Once a valid story exists, a rewrite that can't be repaired falls back to it.
+ */
+async function requestStory(
+  client: LlmClient,
+  system: string,
+  userPrompt: string,
+  articleCount: number,
+  label: string
+): Promise<(SynthesizedStory & { style: StyleReport }) | OffTopicStory> {
+  const messages: LlmMessage[] = [{ role: 'user', content: userPrompt }];
+  const rewritten: StyleIssue[] = [];
+  let repairs = 0;
+  let rewrites = 0;
+  // Last answer that passed the schema, kept if a style rewrite comes back unusable
+  let lastValid: (SynthesizedStory & { style: StyleReport }) | null = null;
+
+  for (;;) {
+    const text = await withRetry(
+      () => client.complete({
+        system,
+        // Snapshot: later repair turns must not alter a recorded request
+        messages: [...messages],
+        // Thinking actif par defaut (Opus 5 comme Kimi K3), compte dans max_tokens.
+        // 4096 tronquait le JSON avec kimi-k3 (teste 2026-08-06) -> aligne sur 8192.
+        maxTokens: 8192,
+        cacheSystem: true,
+      }),
+      { label }
+    );
+
+    let output: SynthesizedStory | OffTopicStory;
+    try {
+      output = parseStoryOutput(text, articleCount);
+    } catch (error) {
+      if (!(error instanceof StoryOutputError)) throw error;
+      if (repairs >= MAX_REPAIR_ATTEMPTS) {
+        if (!lastValid) throw error;
+        console.warn(`   ✍️  Réécriture inexploitable, version précédente conservée: ${error.issues.join(' ; ')}`);
+        return lastValid;
+      }
+      repairs++;
+      console.warn(`   🔧 Réponse invalide (${error.issues.length} erreur(s)), correction demandée: ${error.issues.join(' ; ')}`);
+      messages.push(
+        { role: 'assistant', content: text },
+        { role: 'user', content: describeRepair('Ta réponse ne respecte pas le format demandé', error.issues) }
+      );
+      continue;
+    }
+    if (output.category === 'hors_sujet') {
+      // A rewrite is not a new topic decision
+      return lastValid ?? output;
+    }
+
+    const { story, fixed, issues } = lintStory(output);
+    lastValid = { ...story, style: { fixed, rewritten: [...rewritten], remaining: issues } };
+    if (issues.length > 0 && rewrites < MAX_STYLE_REWRITES) {
+      rewrites++;
+      console.warn(`   ✍️  Style: ${issues.length} problème(s), réécriture demandée (${countByRule(issues)})`);
+      rewritten.push(...issues);
+      messages.push(
+        { role: 'assistant', content: text },
+        {
+          role: 'user',
+          content: describeRepair(
+            'Ta réponse ne respecte pas les règles de rédaction',
+            issues.map(issue => `${issue.field}: ${issue.message}`)
+          ),
+        }
+      );
+      continue;
+    }
+    return lastValid;
+  }
+}
+
+/**
+ * Resolve the article numbers cited by the model (1-based, as numbered in the prompt)
+ */
+function resolveCitations(storyData: SynthesizedStory, articles: RawArticle[]): StoryCitations {
+  const cite = (indices: number[]) => {
+    const cited = [...new Set(indices)].map(i => articles[i - 1]);
+    return cited
+      .filter((a, i) => cited.findIndex(b => b.url === a.url) === i)
+      .map(a => ({ source: a.source, url: a.url }));
+  };
+  return { bullets: storyData.bulletSources.map(cite), execSummary: storyData.paragraphSources.map(cite) };
+}
+
+/**
+ * Grounding judge backed by the grounding task's client
+ */
+function groundingJudge(client: LlmClient): GroundingJudge {
+  return (system, prompt) => withRetry(
+    () => client.complete({ system, messages: [{ role: 'user', content: prompt }], maxTokens: 4096 }),
+    { label: 'grounding judge' }
+  );
+}
+
+/**
+ * Grounding sources for the pool prompts, which show titles and descriptions only:
+ * a body the model never saw must not support a claim
+ */
+function headlineSources(articles: RawArticle[]): GroundingSource[] {
+  return articles.map(a => ({ source: a.source, title: a.title, description: a.description }));
+}
+
+/**
+ * Check the story's claims against the articles the model was given and attach the report.
+ * Returns false when the story must be rejected.
+ */
+async function verifyGrounding(client: LlmClient, story: Story, sources: GroundingSource[]): Promise<boolean> {
+  const report = await checkGrounding(story, sources, groundingJudge(client));
+  story.grounding = report;
+
+  const claims = report.unsupported.map(claim => `${claim.text} (${claim.field})`).join(', ');
+  if (report.status === 'rejected') {
+    console.log(`   ⊘ Rejeté (${report.unsupported.length} affirmations non sourcées): ${claims}`);
+    return false;
+  }
+  if (report.status === 'flagged') {
+    const unchecked = report.judgeUnavailable ? ' (juge indisponible, non vérifiées)' : '';
+    console.warn(`   ⚠ ${report.unsupported.length} affirmation(s) non sourcée(s)${unchecked}: ${claims}`);
+  }
+  return true;
+}
+
 // System prompt pour synthèse multi-sources
 const SYSTEM_PROMPT = `Tu es un analyste senior. Tu reçois plusieurs articles de presse sur un même sujet provenant de sources différentes.
 
@@ -205,6 +464,12 @@ RÈGLES DE FRANÇAIS (CRITIQUE) :
 - Forme correcte : "La Russie bombarde Kiev" PAS "Russie bombarde Kiev"
 - IMPORTANT : N'écris PAS les articles en majuscules (pas "LA Russie" mais "La Russie" ou "la Russie")
 
+ATTRIBUTION DES SOURCES (CRITIQUE) :
+- Chaque bullet et chaque paragraphe de l'execSummary indique les numéros des ARTICLES (ARTICLE 1, ARTICLE 2...) d'où viennent ses informations
+- "bulletSources" : une liste de numéros par bullet, dans l'ordre des bullets
+- "paragraphSources" : une liste de numéros par paragraphe, dans l'ordre des paragraphes
+- Ne cite QUE des articles qui contiennent réellement l'information ; le lecteur pourra ouvrir l'article pour la vérifier
+
 FORMAT DE SORTIE (JSON strict, pas de markdown) :
 
 Si le sujet est pertinent :
@@ -223,7 +488,9 @@ Si le sujet est pertinent :
     "La position/réaction de l'acteur B ou opposant (max 15 mots)",
     "L'enjeu économique ou stratégique clé (max 15 mots)"
   ],
-  "execSummary": "4 paragraphes structurés (250-300 mots total) : Faits | Position A | Position B | Enjeux"
+  "execSummary": "4 paragraphes structurés (250-300 mots total) : Faits | Position A | Position B | Enjeux",
+  "bulletSources": [[1, 2], [2], [1], [3], [2, 3]],
+  "paragraphSources": [[1, 2], [1], [3], [2, 3]]
 }
 
 Si le sujet est HORS SCOPE :
@@ -234,22 +501,47 @@ Si le sujet est HORS SCOPE :
 
 IMPORTANT : Réponds UNIQUEMENT avec le JSON, sans texte avant ou après.`;
 
+/**
+ * Thread features of a synthesized story (pool stories have no cluster to inherit a thread from)
+ */
+function storyFeatures(story: Story): ThreadFeatures {
+  const text = `${story.title} ${story.bullets.join(' ')}`;
+  return threadFeatures(
+    [termCounts({ title: story.title, description: story.bullets.join(' '), bodyText: story.execSummary })],
+    entityKeys(text)
+  );
+}
+
+/**
+ * Prompt section for a follow-up: what previous editions already told about this thread
+ */
+function describeFollowUp(previous: ThreadStory[]): string {
+  if (previous.length === 0) return '';
+  return `
+SUITE DE L'AFFAIRE : ce sujet a déjà été traité dans les éditions précédentes :
+${previous.map(s => `- ${s.date} : "${s.title}"`).join('\n')}
+Concentre la story sur les développements NOUVEAUX depuis ces éditions. Le contexte déjà couvert tient en une phrase au plus, et le titre doit porter sur le fait nouveau (pas de reprise d'un titre précédent).
+`;
+}
+
 /**
  * Synthesize a story from a cluster of articles
  */
 async function synthesizeStory(
-  client: Anthropic,
+  llm: LlmClients,
   cluster: ArticleCluster,
-  storyIndex: number
+  id: string,
+  previous: ThreadStory[] = []
 ): Promise<Story | null> {
   // Build detailed prompt with all articles
+  const excerptLength = Math.min(MAX_EXCERPT_LENGTH, Math.floor(MAX_EXCERPTS_LENGTH / cluster.articles.length));
   const articlesDetail = cluster.articles
     .map(
       (a, i) => `
-ARTICLE ${i + 1} (${a.source}) :
+ARTICLE ${i + 1} (${describeSource(a)}) :
 Titre: ${a.title}
 Description: ${a.description}
-URL: ${a.url}
+${describeBody(a, excerptLength)}URL: ${a.url}
 `
     )
     .join('\n---\n');
@@ -260,58 +552,24 @@ SOURCES DISPONIBLES :
 ${[...new Set(cluster.articles.map((a) => a.source))].join(', ')}
 
 ${articlesDetail}
-
+${describeFollowUp(previous)}
 Génère la story au format JSON demandé. Assure-toi de croiser les perspectives des différentes sources.`;
 
   try {
-    const response = await withRetry(
-      () => client.messages.create({
-        model: MODELS.synthesis,
-        // Opus 5 : thinking actif par defaut, compte dans max_tokens
-        max_tokens: 8192,
-        system: [
-          {
-            type: 'text' as const,
-            text: SYSTEM_PROMPT,
-            cache_control: { type: 'ephemeral' as const },
-          },
-        ],
-        messages: [{ role: 'user', content: userPrompt }],
-      }),
-      { label: `synthesize cluster "${cluster.topic.slice(0, 30)}"` }
+    const storyData = await requestStory(
+      llm.synthesis,
+      SYSTEM_PROMPT,
+      userPrompt,
+      cluster.articles.length,
+      `synthesize cluster "${cluster.topic.slice(0, 30)}"`
     );
 
-    // Opus 5 : la reponse commence par un bloc thinking, le texte vient apres
-    const content = response.content.find((b) => b.type === 'text');
-    if (!content || content.type !== 'text') {
-      throw new Error('No text block in response');
-    }
-
-    // Clean markdown code fences if present
-    let jsonText = content.text.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.slice(7);
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.slice(3);
-    }
-    if (jsonText.endsWith('```')) {
-      jsonText = jsonText.slice(0, -3);
-    }
-    jsonText = jsonText.trim();
-
-    // Parse JSON response
-    const storyData = JSON.parse(jsonText);
-
     // Filter out irrelevant stories
     if (storyData.category === 'hors_sujet') {
       console.log(`   ⊘ Rejeté (hors scope): ${storyData.reason || 'pas de raison'}`);
       return null;
     }
 
-    // Generate story ID
-    const today = new Date().toISOString().split('T')[0];
-    const id = `${today}-${String(storyIndex + 1).padStart(2, '0')}`;
-
     // Get all unique sources
     const allSources = [...new Set(cluster.articles.map((a) => a.source))];
 
@@ -347,18 +605,27 @@ Génère la story au format JSON demandé. Assure-toi de croiser les perspective
 
     const story: Story = {
       id,
-      category: storyData.category || cluster.category,
+      category: storyData.category,
       _clusterCategory: cluster.category, // Keep original for post-synthesis enforcement
       title: storyData.title,
       imageUrl,
       location: storyData.location,
       bullets: storyData.bullets,
       execSummary: storyData.execSummary,
+      _style: storyData.style,
+      citations: resolveCitations(storyData, cluster.articles),
       sources: allSources,
       publishedAt: mostRecent.publishedAt,
     };
 
-    return story;
+    // Sources as the model saw them: title, description and the same body excerpt
+    const sources = cluster.articles.map((a) => ({
+      source: a.source,
+      title: a.title,
+      description: a.description,
+      bodyText: a.bodyText ? keyParagraphs(a.bodyText, a.description, excerptLength) : undefined,
+    }));
+    return (await verifyGrounding(llm.grounding, story, sources)) ? story : null;
   } catch (error) {
     console.error(`   ✗ Erreur synthèse: ${error instanceof Error ? error.message : error}`);
     return null;
@@ -412,6 +679,12 @@ RÈGLES DE FRANÇAIS (CRITIQUE) :
 - Articles devant les noms de pays et institutions
 - N'écris PAS les articles en majuscules
 
+ATTRIBUTION DES SOURCES (CRITIQUE) :
+- Chaque bullet et chaque paragraphe de l'execSummary indique les numéros des ARTICLES (ARTICLE 1, ARTICLE 2...) d'où viennent ses informations
+- "bulletSources" : une liste de numéros par bullet, dans l'ordre des bullets
+- "paragraphSources" : une liste de numéros par paragraphe, dans l'ordre des paragraphes
+- Ne cite QUE des articles qui contiennent réellement l'information ; le lecteur pourra ouvrir l'article pour la vérifier
+
 FORMAT DE SORTIE (JSON strict, pas de markdown) :
 
 Si un sujet pertinent émerge :
@@ -427,6 +700,8 @@ Si un sujet pertinent émerge :
     "L'enjeu clé (max 15 mots)"
   ],
   "execSummary": "4 paragraphes (250-300 mots)",
+  "bulletSources": [[3, 7], [7], [3], [12], [3, 12]],
+  "paragraphSources": [[3, 7], [3], [12], [7, 12]],
   "usedSources": ["Source 1", "Source 2"]
 }
 
@@ -443,10 +718,10 @@ IMPORTANT : Réponds UNIQUEMENT avec le JSON.`;
  * Claude picks the best topic covered by multiple sources.
  */
 async function synthesizeFromPool(
-  client: Anthropic,
+  llm: LlmClients,
   articles: RawArticle[],
   category: 'tech' | 'eco',
-  storyIndex: number,
+  id: string,
   recentTitles: string[] = []
 ): Promise<Story | null> {
   let prompt = POOL_SYSTEM_PROMPT.replace(/%CATEGORY%/g, category);
@@ -494,36 +769,7 @@ Identifie le sujet le plus important qui N'A PAS été couvert récemment et syn
 ${articlesDetail}`;
 
   try {
-    const response = await withRetry(
-      () => client.messages.create({
-        model: MODELS.synthesis,
-        // Opus 5 : thinking actif par defaut, compte dans max_tokens
-        max_tokens: 8192,
-        system: [
-          {
-            type: 'text' as const,
-            text: prompt,
-            cache_control: { type: 'ephemeral' as const },
-          },
-        ],
-        messages: [{ role: 'user', content: userPrompt }],
-      }),
-      { label: `synthesize pool ${category}` }
-    );
-
-    // Opus 5 : la reponse commence par un bloc thinking, le texte vient apres
-    const content = response.content.find((b) => b.type === 'text');
-    if (!content || content.type !== 'text') {
-      throw new Error('No text block in response');
-    }
-
-    let jsonText = content.text.trim();
-    if (jsonText.startsWith('```json')) jsonText = jsonText.slice(7);
-    else if (jsonText.startsWith('```')) jsonText = jsonText.slice(3);
-    if (jsonText.endsWith('```')) jsonText = jsonText.slice(0, -3);
-    jsonText = jsonText.trim();
-
-    const storyData = JSON.parse(jsonText);
+    const storyData = await requestStory(llm.synthesis, prompt, userPrompt, filteredArticles.length, `synthesize pool ${category}`);
 
     if (storyData.category === 'hors_sujet') {
       console.log(`   ⊘ Rejeté (hors scope): ${storyData.reason || 'pas de raison'}`);
@@ -543,9 +789,6 @@ ${articlesDetail}`;
       }
     }
 
-    const today = new Date().toISOString().split('T')[0];
-    const id = `${today}-${String(storyIndex + 1).padStart(2, '0')}`;
-
     // Use sources from Claude's response if available, otherwise all sources
     const usedSources = storyData.usedSources || filteredSources;
 
@@ -571,7 +814,7 @@ ${articlesDetail}`;
       return new Date(article.publishedAt) > new Date(latest.publishedAt) ? article : latest;
     });
 
-    return {
+    const story: Story = {
       id,
       category,
       title: storyData.title,
@@ -579,9 +822,12 @@ ${articlesDetail}`;
       location: storyData.location,
       bullets: storyData.bullets,
       execSummary: storyData.execSummary,
+      _style: storyData.style,
+      citations: resolveCitations(storyData, filteredArticles),
       sources: usedSources,
       publishedAt: mostRecent.publishedAt,
     };
+    return (await verifyGrounding(llm.grounding, story, headlineSources(filteredArticles))) ? story : null;
   } catch (error) {
     console.error(`   ✗ Erreur synthèse pool: ${error instanceof Error ? error.message : error}`);
     return null;
@@ -596,16 +842,40 @@ async function synthesize(): Promise<void> {
   console.log('=============================================');
   console.log(`📅 Date: ${new Date().toLocaleString('fr-FR')}\n`);
 
-  // Check API credentials (ANTHROPIC_AUTH_TOKEN est utilisé pour les endpoints
-  // Anthropic-compatibles tiers, ex: Moonshot/Kimi via ANTHROPIC_BASE_URL)
-  if (!process.env.ANTHROPIC_API_KEY && !process.env.ANTHROPIC_AUTH_TOKEN) {
-    console.error('❌ Erreur: ni ANTHROPIC_API_KEY ni ANTHROPIC_AUTH_TOKEN définie');
-    console.error('   Export la variable: export ANTHROPIC_API_KEY=sk-ant-...');
+  // LLM clients per task (config/models.ts); live and record modes need the providers' keys
+  const args = process.argv.slice(2);
+  const { mode, recordingsPath } = parseLlmArgs(args);
+  const dataDir = args.find(arg => arg.startsWith('--data-dir='))?.split('=')[1] ?? DATA_DIR;
+  const storiesPath = args.find(arg => arg.startsWith('--output='))?.split('=')[1] ?? STORIES_PATH;
+  if (mode === 'replay' && !existsSync(recordingsPath)) {
+    console.error(`❌ Erreur: enregistrements introuvables: ${recordingsPath}`);
+    console.error("   Enregistrez d'abord: npm run synthesize -- --llm=record");
+    process.exit(1);
+  }
+  const recordings = mode === 'live' ? {} : loadRecordings(recordingsPath);
+  let llm: LlmClients;
+  try {
+    llm = {
+      synthesis: createLlmClient('synthesis', mode, recordings),
+      grounding: createLlmClient('grounding', mode, recordings),
+    };
+  } catch (error) {
+    console.error(`❌ Erreur: ${error instanceof Error ? error.message : error}`);
     process.exit(1);
   }
-  console.log(`🤖 Modèle de synthèse: ${MODELS.synthesis}${process.env.ANTHROPIC_BASE_URL ? ` (via ${process.env.ANTHROPIC_BASE_URL})` : ''}`);
+  console.log(`🤖 Modèle de synthèse: ${MODEL_ROUTES.synthesis} · vérification: ${MODEL_ROUTES.grounding}`);
+  if (mode !== 'live') {
+    console.log(`📼 Mode ${mode}: ${Object.keys(recordings).length} réponse(s) enregistrée(s) dans ${recordingsPath}`);
+  }
+
+  // Record and replay prompts depend on the input files only (see header)
+  const recentStoryTitles = (category: string): Promise<string[]> =>
+    mode === 'live' ? fetchRecentStoryTitles(category, 7) : Promise.resolve([]);
+  const pause = (): Promise<void> =>
+    mode === 'replay' ? Promise.resolve() : new Promise((resolve) => setTimeout(resolve, API_PAUSE_MS));
 
   // Load clustered articles
+  const CLUSTERED_PATH = join(dataDir, 'clustered-articles.json');
   if (!existsSync(CLUSTERED_PATH)) {
     console.error('❌ Erreur: clustered-articles.json non trouvé');
     console.error("   Exécutez d'abord: npm run cluster");
@@ -616,41 +886,72 @@ async function synthesize(): Promise<void> {
   console.log(`📚 ${clusteredData.clusterCount} clusters chargés`);
 
   // Also load raw articles for pool-based synthesis (tech/eco)
-  const RAW_ARTICLES_PATH = join(__dirname, '..', 'data', 'raw-articles.json');
+  const RAW_ARTICLES_PATH = join(dataDir, 'raw-articles.json');
   const rawData = JSON.parse(readFileSync(RAW_ARTICLES_PATH, 'utf-8'));
   const rawArticles: RawArticle[] = rawData.articles;
 
-  // Initialize Anthropic client
-  const client = new Anthropic();
+  // Edition day: the reference date of the clustering (end of the curation window), not the
+  // clock, so backfills and runs just after midnight land on their clusters' day.
+  // Files written before referenceTime existed fall back to their generation date.
+  const referenceDate = new Date(clusteredData.referenceTime ?? clusteredData.generatedAt);
+  const today = referenceDate.toISOString().split('T')[0];
+  const storyId = (index: number) => `${today}-${String(index + 1).padStart(2, '0')}`;
+
+  // Story threads: today's edition replaces any earlier run of the same day
+  const threadsPath = join(dataDir, 'story-threads.json');
+  const threads = loadThreads(threadsPath);
+  forgetStories(threads, today);
 
   // Synthesize stories
   const stories: Story[] = [];
   let storyIndex = 0;
 
-  // 1. Synthesize géopo clusters (traditional clustering)
-  const geopoClusters = clusteredData.clusters.filter(c => c.category === 'geopolitique');
-  console.log(`\n🌍 Géopolitique: ${geopoClusters.length} clusters`);
+  // Stories of a category, counted by cluster category (the model may reclassify, reverted below)
+  const countFor = (category: Category) => stories.filter(s => (s._clusterCategory ?? s.category) === category).length;
 
-  for (const cluster of geopoClusters) {
-    if (stories.filter(s => s.category === 'geopolitique').length >= 3) break;
-    const sourcesList = [...new Set(cluster.articles.map((a) => a.source))].join(', ');
-    console.log(`📝 Synthèse géopo ${storyIndex + 1}: ${cluster.topic.slice(0, 60)}`);
-    console.log(`   Sources: ${sourcesList} (${cluster.articles.length} articles)`);
+  /**
+   * Multi-source synthesis of the selected clusters of a category, up to its target
+   */
+  const synthesizeClusters = async (category: Category): Promise<void> => {
+    const clusters = clusteredData.clusters.filter(c =>
+      c.category === category && new Set(c.articles.map(a => a.source)).size >= MIN_CLUSTER_SOURCES[category]
+    );
+    console.log(`\n${CATEGORY_LABELS[category]}: ${clusters.length} cluster(s)`);
+
+    for (const cluster of clusters) {
+      if (countFor(category) >= STORY_TARGETS[category]) break;
+      const sourcesList = [...new Set(cluster.articles.map((a) => a.source))].join(', ');
+      console.log(`📝 Synthèse ${category} ${storyIndex + 1}: ${cluster.topic.slice(0, 60)}`);
+      console.log(`   Sources: ${sourcesList} (${cluster.articles.length} articles)`);
+
+      const thread = cluster.threadId ? findThread(threads, cluster.threadId) : null;
+      const previous = thread ? previousStories(thread, today) : [];
+      if (previous.length > 0) {
+        console.log(`   🧵 Suite de l'affaire (${previous.length} story(ies) précédente(s), dernière : "${previous[previous.length - 1].title}")`);
+      }
 
-    const story = await synthesizeStory(client, cluster, storyIndex);
-    if (story) {
-      stories.push(story);
-      console.log(`   ✓ "${story.title}" → ${story.sources.length} sources`);
-      storyIndex++;
+      const story = await synthesizeStory(llm, cluster, storyId(storyIndex), previous);
+      if (story) {
+        if (thread) {
+          story.threadId = thread.id;
+          story.previousStoryIds = previous.map(s => s.id);
+        }
+        stories.push(story);
+        console.log(`   ✓ "${story.title}" → ${story.sources.length} sources`);
+        storyIndex++;
+      }
+      await pause();
     }
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-  }
+  };
+
+  // 1. Géopo: clusters, then pool-based fallback
+  await synthesizeClusters('geopolitique');
 
   // If géopo clusters didn't produce enough stories, use pool-based fallback
-  const geopoCount = stories.filter(s => s.category === 'geopolitique').length;
-  if (geopoCount < 3) {
+  const geopoCount = countFor('geopolitique');
+  if (geopoCount < STORY_TARGETS.geopolitique) {
     const geopoArticles = rawArticles.filter((a: RawArticle) => a.category === 'geopolitique');
-    const needed = 3 - geopoCount;
+    const needed = STORY_TARGETS.geopolitique - geopoCount;
     console.log(`\n🌍 Géopo fallback: ${needed} story(ies) manquante(s), pool de ${geopoArticles.length} articles`);
 
     // Sort by recency, take top 40 most recent
@@ -678,39 +979,22 @@ async function synthesize(): Promise<void> {
       const sources = [...new Set(recentGeopo.map((a: RawArticle) => a.source))];
 
       try {
-        const response = await withRetry(
-          () => client.messages.create({
-            model: MODELS.synthesis,
-            // Thinking actif par defaut (Opus 5 comme Kimi K3), compte dans max_tokens.
-            // 4096 tronquait le JSON avec kimi-k3 (teste 2026-08-06) -> aligne sur 8192.
-            max_tokens: 8192,
-            system: [{ type: 'text' as const, text: geopoPoolPrompt, cache_control: { type: 'ephemeral' as const } }],
-            messages: [{ role: 'user', content: `Voici ${recentGeopo.length} articles géopolitiques de ${sources.length} sources.
+        const storyData = await requestStory(
+          llm.synthesis,
+          geopoPoolPrompt,
+          `Voici ${recentGeopo.length} articles géopolitiques de ${sources.length} sources.
 Identifie le sujet le plus important couvert par PLUSIEURS sources et synthétise-le.${excludeStr}
 
-${articlesDetail}` }],
-          }),
-          { label: 'synthesize geopo fallback' }
+${articlesDetail}`,
+          recentGeopo.length,
+          'synthesize geopo fallback'
         );
-
-        // Chercher le bloc text (les modèles thinking renvoient un bloc thinking en premier)
-        const content = response.content.find((b) => b.type === 'text');
-        if (!content || content.type !== 'text') continue;
-
-        let jsonText = content.text.trim();
-        if (jsonText.startsWith('```json')) jsonText = jsonText.slice(7);
-        else if (jsonText.startsWith('```')) jsonText = jsonText.slice(3);
-        if (jsonText.endsWith('```')) jsonText = jsonText.slice(0, -3);
-        jsonText = jsonText.trim();
-
-        const storyData = JSON.parse(jsonText);
         if (storyData.category === 'hors_sujet') {
           console.log(`   ⊘ Rejeté: ${storyData.reason || 'hors scope'}`);
           continue;
         }
 
-        const today = new Date().toISOString().split('T')[0];
-        const id = `${today}-${String(storyIndex + 1).padStart(2, '0')}`;
+        const id = storyId(storyIndex);
         const usedSources = storyData.usedSources || sources;
 
         const articlesWithValidImage = recentGeopo
@@ -735,9 +1019,12 @@ ${articlesDetail}` }],
           location: storyData.location,
           bullets: storyData.bullets,
           execSummary: storyData.execSummary,
+          _style: storyData.style,
+          citations: resolveCitations(storyData, recentGeopo),
           sources: usedSources,
           publishedAt: mostRecent.publishedAt,
         };
+        if (!(await verifyGrounding(llm.grounding, story, headlineSources(recentGeopo)))) continue;
 
         stories.push(story);
         console.log(`   ✓ "${story.title}" → ${story.sources.length} sources`);
@@ -746,45 +1033,47 @@ ${articlesDetail}` }],
         console.error(`   ✗ Erreur: ${error instanceof Error ? error.message : error}`);
       }
 
-      if (i < needed - 1) await new Promise((resolve) => setTimeout(resolve, 1500));
+      if (i < needed - 1) await pause();
     }
   }
 
-  // 2. Synthesize tech from full article pool (with diversity)
+  // 2. Tech: clusters, then full article pool as fallback (with diversity)
+  await synthesizeClusters('tech');
   const techArticles = rawArticles.filter(a => a.category === 'tech');
-  console.log(`\n💻 Tech: ${techArticles.length} articles dans le pool`);
-  if (techArticles.length > 0) {
-    const recentTechTitles = await fetchRecentStoryTitles('tech', 7);
+  if (countFor('tech') < STORY_TARGETS.tech && techArticles.length > 0) {
+    console.log(`\n💻 Tech fallback: pool de ${techArticles.length} articles`);
+    const recentTechTitles = await recentStoryTitles('tech');
     if (recentTechTitles.length > 0) {
       console.log(`   📋 ${recentTechTitles.length} titres tech récents chargés pour diversité`);
     }
     // Include same-run stories: tech/eco pools can pick the same event (seen 2026-08-02,
     // sujet Claude/Anthropic synthétisé deux fois, une par catégorie)
     const techForbidden = [...recentTechTitles, ...stories.map((s) => s.title)];
-    const techStory = await synthesizeFromPool(client, techArticles, 'tech', storyIndex, techForbidden);
+    const techStory = await synthesizeFromPool(llm, techArticles, 'tech', storyId(storyIndex), techForbidden);
     if (techStory) {
       stories.push(techStory);
       console.log(`   ✓ "${techStory.title}" → ${techStory.sources.length} sources`);
       storyIndex++;
     }
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await pause();
   }
 
-  // 3. Synthesize eco from full article pool (with diversity from recent editions)
+  // 3. Éco: clusters, then full article pool as fallback (with diversity from recent editions)
+  await synthesizeClusters('eco');
   const ecoArticles = rawArticles.filter(a => a.category === 'eco');
-  console.log(`\n💰 Éco: ${ecoArticles.length} articles dans le pool`);
-  if (ecoArticles.length > 0) {
-    const recentEcoTitles = await fetchRecentStoryTitles('eco', 7);
+  if (countFor('eco') < STORY_TARGETS.eco && ecoArticles.length > 0) {
+    console.log(`\n💰 Éco fallback: pool de ${ecoArticles.length} articles`);
+    const recentEcoTitles = await recentStoryTitles('eco');
     if (recentEcoTitles.length > 0) {
       console.log(`   📋 ${recentEcoTitles.length} titres éco récents chargés pour diversité`);
     }
     const ecoForbidden = [...recentEcoTitles, ...stories.map((s) => s.title)];
-    let ecoStory = await synthesizeFromPool(client, ecoArticles, 'eco', storyIndex, ecoForbidden);
+    let ecoStory = await synthesizeFromPool(llm, ecoArticles, 'eco', storyId(storyIndex), ecoForbidden);
     // Retry once if rejected by similarity guard
     if (!ecoStory && ecoForbidden.length > 0) {
       console.log(`   🔁 Retry synthèse éco avec contrainte renforcée...`);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      ecoStory = await synthesizeFromPool(client, ecoArticles, 'eco', storyIndex, ecoForbidden);
+      await pause();
+      ecoStory = await synthesizeFromPool(llm, ecoArticles, 'eco', storyId(storyIndex), ecoForbidden);
     }
     if (ecoStory) {
       stories.push(ecoStory);
@@ -801,8 +1090,42 @@ ${articlesDetail}` }],
     }
   }
 
-  // Strip internal _clusterCategory before output
-  const cleanStories = stories.map(({ _clusterCategory, ...rest }) => rest);
+  // Final guard: an invalid story never reaches stories.json
+  for (const story of [...stories]) {
+    const errors = validateStory(story);
+    if (errors.length > 0) {
+      console.error(`   ✗ Story invalide écartée "${story.title}": ${errors.join(' ; ')}`);
+      stories.splice(stories.indexOf(story), 1);
+    }
+  }
+
+  // Link the remaining stories (pool, clusters without a known thread) to threads, then record the edition
+  const unthreaded = stories.filter(s => !s.threadId);
+  const poolMatches = assignThreads(
+    threads,
+    unthreaded.map(s => ({ key: s.id, title: s.title, category: s.category, features: storyFeatures(s) })),
+    referenceDate
+  );
+  for (const story of unthreaded) {
+    const match = poolMatches.get(story.id)!;
+    story.threadId = match.threadId;
+    story.previousStoryIds = previousStories(findThread(threads, match.threadId)!, today).map(s => s.id);
+  }
+  for (const story of stories) {
+    recordStory(findThread(threads, story.threadId!)!, { id: story.id, title: story.title, date: today });
+    if (story.previousStoryIds && story.previousStoryIds.length > 0) {
+      console.log(`   🧵 "${story.title}" : suite de ${story.previousStoryIds.join(', ')}`);
+    }
+  }
+  saveThreads(threads, threadsPath);
+
+  // Strip internal _clusterCategory and _style before output
+  const cleanStories = stories.map(story => {
+    const clean = { ...story };
+    delete clean._clusterCategory;
+    delete clean._style;
+    return clean;
+  });
 
   // Create edition
   const edition: Edition = {
@@ -811,7 +1134,12 @@ ${articlesDetail}` }],
   };
 
   // Write output
-  writeFileSync(STORIES_PATH, JSON.stringify(edition, null, 2), 'utf-8');
+  writeFileSync(storiesPath, JSON.stringify(edition, null, 2), 'utf-8');
+
+  if (mode === 'record') {
+    saveRecordings(recordings, recordingsPath);
+    console.log(`📼 ${Object.keys(recordings).length} réponse(s) enregistrée(s) dans ${recordingsPath}`);
+  }
 
   // Summary
   console.log('\n=============================================');
@@ -836,7 +1164,28 @@ ${articlesDetail}` }],
   const avgSources = stories.reduce((sum, s) => sum + s.sources.length, 0) / stories.length;
   console.log(`\nMoyenne sources par story: ${avgSources.toFixed(1)}`);
 
-  console.log(`\n✅ Sauvegardé dans: ${STORIES_PATH}`);
+  // Grounding (grounding.ts)
+  const flagged = stories.filter(s => s.grounding?.status === 'flagged');
+  console.log(`\nSources vérifiées: ${stories.filter(s => s.grounding?.status === 'grounded').length} stories entièrement sourcées, ${flagged.length} signalée(s)`);
+  for (const story of flagged) {
+    const unchecked = story.grounding!.judgeUnavailable ? ' (juge indisponible)' : '';
+    console.log(`     - "${story.title}"${unchecked}: ${story.grounding!.unsupported.map(claim => claim.text).join(', ')}`);
+  }
+
+  // French style lint (style-lint.ts)
+  const styleReports = stories.flatMap(s => (s._style ? [{ title: s.title, ...s._style }] : []));
+  const fixed = styleReports.flatMap(r => r.fixed);
+  const rewritten = styleReports.flatMap(r => r.rewritten);
+  console.log(`\nStyle (${styleReports.length} stories vérifiées):`);
+  console.log(`  • Corrections automatiques: ${fixed.length}${fixed.length > 0 ? ` (${countByRule(fixed)})` : ''}`);
+  console.log(`  • Réécritures demandées: ${rewritten.length}${rewritten.length > 0 ? ` (${countByRule(rewritten)})` : ''}`);
+  const remaining = styleReports.filter(r => r.remaining.length > 0);
+  console.log(`  • Stories avec problèmes restants: ${remaining.length}`);
+  for (const report of remaining) {
+    console.log(`     - "${report.title}": ${report.remaining.map(issue => `${issue.field} (${issue.rule})`).join(', ')}`);
+  }
+
+  console.log(`\n✅ Sauvegardé dans: ${storiesPath}`);
 }
 
 // Run
@@ -0,0 +1,183 @@
+/**
+ * Text Features - Représentation textuelle des articles pour le clustering
+ *
+ * Un article est décrit par un sac de termes pondéré par champ : le titre
+ * compte plus que la description, elle-même plus que le corps (bodyText,
+ * quand la curation l'a extrait). Les termes sont :
+ *   - les mots racinisés (stemming léger FR ou EN selon la langue de l'article),
+ *     pour que « frappe », « frappes » et « frapper » se rejoignent
+ *   - les bigrammes de racines consécutives (« cessez feu », « taux directeur »)
+ *   - les entités du gazetteer (« @country:UA » pour Kiev, Kyiv ou ukrainien,
+ *     « @company:bytedance » pour TikTok)
+ *
+ * Le vocabulaire d'actualité courant est ramené à des concepts communs aux
+ * deux langues (« cessez-le-feu » et « ceasefire » → « ~ceasefire », voir
+ * lexicon.ts) pour que les articles FR et EN d'un même événement se rejoignent.
+ */
+
+import { extractEntities, entityCountry, entityKey } from './gazetteer.js';
+import { buildConceptMatcher, loadLexicon, mapConcepts, type ConceptMatcher } from './lexicon.js';
+
+/**
+ * Poids de chaque champ dans le sac de termes
+ */
+export const FIELD_WEIGHTS = {
+  title: 3,
+  description: 1,
+  body: 0.5,
+};
+
+/**
+ * Seul le début du corps est utilisé (l'essentiel de l'information d'une dépêche)
+ */
+const BODY_MAX_LENGTH = 1500;
+
+const MIN_STEM_LENGTH = 3;
+
+// Stop words FR + EN
+const STOP_WORDS = new Set([
+  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'en', 'au', 'aux',
+  'à', 'ce', 'ces', 'cette', 'que', 'qui', 'quoi', 'dont', 'où', 'sur', 'sous',
+  'par', 'pour', 'avec', 'sans', 'dans', 'est', 'sont', 'ont', 'etre', 'avoir',
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
+  'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'will', 'would', 'could', 'should', 'may', 'might',
+  'this', 'that', 'these', 'those', 'it', 'its', 'as', 'after', 'before',
+  'news', 'live', 'update', 'breaking', 'latest', 'new', 'nouveau', 'nouvelle',
+  'plus', 'mais', 'pas', 'son', 'ses', 'leur', 'leurs', 'apres', 'avant', 'selon',
+  'says', 'said', 'over', 'into', 'about', 'than', 'their', 'they', 'not', 'more',
+]);
+
+// Suffixes removed by the light stemmers, longest first (accents already stripped)
+const FRENCH_SUFFIXES = [
+  'issements', 'issement', 'ations', 'ation', 'atrices', 'atrice', 'ateurs', 'ateur',
+  'ements', 'ement', 'ments', 'ment', 'ences', 'ence', 'ances', 'ance', 'iennes', 'ienne',
+  'euses', 'euse', 'iques', 'ique', 'istes', 'iste', 'ismes', 'isme', 'ables', 'able',
+  'ites', 'ite', 'ives', 'ive', 'iens', 'ien', 'eurs', 'eur', 'ees', 'ee', 'ers', 'er',
+  'ez', 'es', 'e', 's', 'x',
+];
+
+const ENGLISH_SUFFIXES = [
+  'ations', 'ation', 'ments', 'ment', 'nesses', 'ness', 'ings', 'ing', 'edly',
+  'ers', 'er', 'ed', 'ly', 'ies', 'es', 's',
+];
+
+/**
+ * Racinisation légère : supprime le suffixe le plus long en gardant une racine
+ * d'au moins MIN_STEM_LENGTH lettres. Vise le regroupement, pas la linguistique.
+ */
+export function stem(word: string, language = 'fr'): string {
+  if (/\d/.test(word)) return word;
+
+  if (language === 'en') {
+    if (word.endsWith('ss') || word.endsWith('us') || word.endsWith('is')) return word;
+    for (const suffix of ENGLISH_SUFFIXES) {
+      if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+        const root = word.slice(0, -suffix.length);
+        if (suffix === 'ies') return `${root}y`;
+        // strikes → strik, striking → strik ; stopped → stopp → stop
+        return /([b-df-hj-np-tv-z])\1$/.test(root) && !/(ll|ss|ff|zz)$/.test(root) ? root.slice(0, -1) : root.replace(/e$/, '');
+      }
+    }
+    return word.replace(/e$/, '');
+  }
+
+  if (word.endsWith('aux') && word.length > 5) return `${word.slice(0, -3)}al`;
+  for (const suffix of FRENCH_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Mots normalisés (minuscules, sans accents), racinisés, sans mots vides
+ */
+function stemTokens(text: string, language: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map((word) => stem(word, language));
+}
+
+let cachedConcepts: ConceptMatcher | null = null;
+
+function conceptMatcher(): ConceptMatcher {
+  if (!cachedConcepts) {
+    cachedConcepts = buildConceptMatcher(loadLexicon(), stemTokens);
+  }
+  return cachedConcepts;
+}
+
+/**
+ * Tokens d'un texte : racines, et concepts du lexique bilingue à la place
+ * des formulations reconnues
+ */
+export function tokenize(text: string, language = 'fr'): string[] {
+  return mapConcepts(stemTokens(text, language), language === 'en' ? 'en' : 'fr', conceptMatcher());
+}
+
+/**
+ * Bigrammes de tokens consécutifs
+ */
+export function bigrams(tokens: string[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    pairs.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+}
+
+/**
+ * Clés d'entités d'un texte : personnes et organisations rattachées à un pays
+ * comptent comme ce pays (« Poutine » → Russie), les autres gardent leur clé (ONU, OTAN).
+ * Les entreprises gardent toujours la leur : leur siège ne dit rien du sujet.
+ */
+export function entityKeys(text: string): Set<string> {
+  return new Set(extractEntities(text).map(entity => {
+    const country = entity.type === 'company' ? null : entityCountry(entity);
+    return country ? entityKey({ type: 'country', id: country }) : entityKey(entity);
+  }));
+}
+
+export interface TextFields {
+  title: string;
+  description?: string;
+  bodyText?: string;
+  language?: string;
+}
+
+function addTerms(counts: Map<string, number>, terms: Iterable<string>, weight: number): void {
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + weight);
+  }
+}
+
+/**
+ * Sac de termes pondéré d'un article (unigrammes, bigrammes et entités par champ)
+ */
+export function termCounts(fields: TextFields): Map<string, number> {
+  const counts = new Map<string, number>();
+  const language = fields.language === 'en' ? 'en' : 'fr';
+
+  const parts: [string, number][] = [
+    [fields.title, FIELD_WEIGHTS.title],
+    [fields.description || '', FIELD_WEIGHTS.description],
+    [(fields.bodyText || '').slice(0, BODY_MAX_LENGTH), FIELD_WEIGHTS.body],
+  ];
+
+  for (const [text, weight] of parts) {
+    if (!text) continue;
+    const tokens = tokenize(text, language);
+    addTerms(counts, tokens, weight);
+    addTerms(counts, bigrams(tokens), weight);
+    addTerms(counts, [...entityKeys(text)].map(key => `@${key}`), weight);
+  }
+
+  return counts;
+}
@@ -0,0 +1,118 @@
+/**
+ * Time Window - Fenêtre temporelle de curation et parsing tolérant des dates de flux
+ *
+ * Options CLI (curate.ts) :
+ *   --window=72h        Durée de la fenêtre (h ou d), défaut 48h
+ *   --since=<date ISO>  Début de la fenêtre (défaut: until - window)
+ *   --until=<date ISO>  Fin de la fenêtre (défaut: maintenant)
+ *   --backfill          Rejoue la fenêtre depuis l'archive data/articles/ sans interroger les flux
+ *
+ * Ex: régénérer l'édition du 3 mars :
+ *   npm run curate -- --backfill --until=2026-03-03T05:00:00Z
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_WINDOW_MS = 48 * HOUR_MS;
+
+/**
+ * Avance maximale tolérée d'une date de publication sur l'horloge locale
+ * (horloges de serveurs décalées, fuseau mal déclaré). Au-delà, l'item est rejeté.
+ */
+export const MAX_CLOCK_SKEW_MS = 2 * HOUR_MS;
+
+export interface TimeWindow {
+  since: Date;
+  until: Date;
+  backfill: boolean;
+}
+
+/**
+ * Convertit une durée "72h" / "3d" en millisecondes
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([hd])$/i);
+  if (!match) {
+    throw new Error(`Durée invalide: "${value}" (attendu: ex. 48h ou 3d)`);
+  }
+  const amount = parseFloat(match[1]);
+  return match[2].toLowerCase() === 'd' ? amount * 24 * HOUR_MS : amount * HOUR_MS;
+}
+
+function parseDateArg(name: string, value: string): Date {
+  const date = parsePublicationDate(value);
+  if (!date) {
+    throw new Error(`--${name} invalide: "${value}" (attendu: date ISO, ex. 2026-03-03 ou 2026-03-03T05:00:00Z)`);
+  }
+  return date;
+}
+
+/**
+ * Lit la fenêtre temporelle depuis les arguments CLI
+ */
+export function parseTimeWindow(args: string[], now = new Date()): TimeWindow {
+  const valueOf = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+  const windowArg = valueOf('window');
+  const sinceArg = valueOf('since');
+  const untilArg = valueOf('until');
+
+  const windowMs = windowArg ? parseDuration(windowArg) : DEFAULT_WINDOW_MS;
+  const until = untilArg ? parseDateArg('until', untilArg) : now;
+  const since = sinceArg ? parseDateArg('since', sinceArg) : new Date(until.getTime() - windowMs);
+
+  if (since.getTime() >= until.getTime()) {
+    throw new Error(`Fenêtre vide: --since (${since.toISOString()}) doit précéder --until (${until.toISOString()})`);
+  }
+
+  return { since, until, backfill: args.includes('--backfill') };
+}
+
+/**
+ * Parse une date de flux. Les dates sans fuseau ("2026-03-03 10:00:00") sont
+ * interprétées en UTC pour que le résultat ne dépende pas de la machine.
+ * Retourne null si la date est absente ou illisible.
+ */
+export function parsePublicationDate(raw: string | undefined | null): Date | null {
+  if (!raw) return null;
+  const value = raw.trim();
+
+  // ISO-like date without timezone designator (Z, +hh:mm, GMT...)
+  const isoNoZone = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/;
+  const date = isoNoZone.test(value)
+    ? new Date(value.length === 10 ? `${value}T00:00:00Z` : `${value.replace(' ', 'T')}Z`)
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Date de publication retenue pour un item, ou null s'il sort de la fenêtre.
+ * Une date légèrement dans le futur (≤ MAX_CLOCK_SKEW_MS) est ramenée à `now`
+ * (ou à la fin de la fenêtre si elle est antérieure).
+ */
+export function resolvePublicationDate(
+  raw: string | undefined | null,
+  window: TimeWindow,
+  now = new Date()
+): Date | null {
+  const date = parsePublicationDate(raw);
+  if (!date) return null;
+
+  let time = date.getTime();
+  if (time > now.getTime()) {
+    if (time - now.getTime() > MAX_CLOCK_SKEW_MS) return null;
+    time = Math.min(now.getTime(), window.until.getTime());
+  }
+
+  if (time > window.until.getTime() || time < window.since.getTime()) return null;
+  return new Date(time);
+}
+
+/**
+ * Libellé lisible de la durée d'une fenêtre (ex: "48 heures")
+ */
+export function describeWindow(window: TimeWindow): string {
+  const hours = Math.round((window.until.getTime() - window.since.getTime()) / HOUR_MS);
+  return hours % 24 === 0 && hours > 48 ? `${hours / 24} jours` : `${hours} heures`;
+}
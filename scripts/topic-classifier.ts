@@ -0,0 +1,192 @@
+/**
+ * Topic Classifier - Classification hors-ligne des articles par thème
+ *
+ * Régression logistique multinomiale sur la présence des racines (normalisation
+ * de text-features.ts, concepts du lexique compris), entraînée sur les exemples
+ * annotés de config/topic-samples/ (un fichier par thème, un exemple par ligne)
+ * et sérialisée dans config/topic-model.json.
+ *
+ * Thèmes : actualite (périmètre éditorial), sport, people (célébrités et
+ * divertissement), faits-divers. curate.ts écarte les items dont le thème le
+ * plus probable est exclu (`topicFilter` de config/sources.json) avec une
+ * avance suffisante sur le premier thème conservé (topicMargin) ; contrairement
+ * aux listes de mots-clés, un « match diplomatique » ou la « team Trump » ne
+ * suffisent pas à écarter un article.
+ *
+ * Le modèle répartit la probabilité sur 4 thèmes : un titre de sport court
+ * plafonne souvent sous 50 %, d'où une avance plutôt qu'un seuil de
+ * probabilité. L'avance est calibrée sur le jeu de validation de
+ * fixtures/topics/ (npm run eval:topics).
+ *
+ * Régénérer le modèle après modification des exemples :
+ *   npm run build-topic-model
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { tokenize } from './text-features.js';
+import { detectLanguage } from './language-detect.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const TOPIC_MODEL_PATH = join(__dirname, '..', 'config', 'topic-model.json');
+
+/**
+ * Régularisation L2 des poids (évite de sur-apprendre les exemples rares)
+ */
+const L2_PENALTY = 0.001;
+
+const LEARNING_RATE = 10;
+
+const EPOCHS = 300;
+
+/**
+ * Poids plus petits (en valeur absolue) retirés du modèle sérialisé
+ */
+const MIN_WEIGHT = 0.01;
+
+export interface TopicSample {
+  topic: string;
+  text: string;
+  /** Code ISO 639-1 (détecté si absent) */
+  language?: string;
+}
+
+export interface TopicModel {
+  generatedAt: string;
+  topics: string[];
+  /** Biais par thème */
+  bias: Record<string, number>;
+  /** Terme → poids par thème (absents = 0) */
+  weights: Record<string, Record<string, number>>;
+}
+
+export interface TopicPrediction {
+  /** Thème le plus probable */
+  topic: string;
+  probability: number;
+  /** Probabilité de chaque thème, triées par ordre décroissant */
+  probabilities: { topic: string; probability: number }[];
+}
+
+/**
+ * Termes d'un texte : les tokens de text-features.ts, sans bigrammes (trop
+ * rares sur des titres, ils dégradent la validation croisée)
+ */
+export function topicTerms(text: string, language?: string): string[] {
+  return tokenize(text, language || detectLanguage(text).language);
+}
+
+/**
+ * Vecteur d'un texte : présence des termes, de norme euclidienne 1
+ */
+function featureVector(terms: string[]): Map<string, number> {
+  const unique = new Set(terms);
+  const value = unique.size > 0 ? 1 / Math.sqrt(unique.size) : 0;
+  return new Map([...unique].map(term => [term, value]));
+}
+
+function softmax(scores: number[]): number[] {
+  const best = Math.max(...scores);
+  const exps = scores.map(score => Math.exp(score - best));
+  const sum = exps.reduce((acc, value) => acc + value, 0);
+  return exps.map(value => value / sum);
+}
+
+/**
+ * Entraîne le modèle (régression logistique multinomiale, descente de
+ * gradient sur l'ensemble des exemples) à partir d'exemples annotés
+ */
+export function trainTopicModel(samples: TopicSample[]): TopicModel {
+  const topics = [...new Set(samples.map(s => s.topic))].sort();
+  const vectors = samples.map(s => featureVector(topicTerms(s.text, s.language)));
+  const targets = samples.map(s => topics.indexOf(s.topic));
+  // Balanced classes: each topic weighs the same whatever its number of examples
+  const classWeights = topics.map(topic => samples.length / (topics.length * samples.filter(s => s.topic === topic).length));
+
+  const vocabulary = [...new Set(vectors.flatMap(v => [...v.keys()]))].sort();
+  const index = new Map(vocabulary.map((term, i) => [term, i]));
+  const weights = topics.map(() => new Float64Array(vocabulary.length));
+  const bias = topics.map(() => 0);
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const gradients = topics.map(() => new Float64Array(vocabulary.length));
+    const biasGradients = topics.map(() => 0);
+
+    vectors.forEach((vector, n) => {
+      const scores = topics.map((_, k) => {
+        let score = bias[k];
+        for (const [term, value] of vector) score += weights[k][index.get(term)!] * value;
+        return score;
+      });
+      softmax(scores).forEach((probability, k) => {
+        const error = (probability - (targets[n] === k ? 1 : 0)) * classWeights[targets[n]];
+        biasGradients[k] += error;
+        for (const [term, value] of vector) gradients[k][index.get(term)!] += error * value;
+      });
+    });
+
+    topics.forEach((_, k) => {
+      bias[k] -= (LEARNING_RATE * biasGradients[k]) / samples.length;
+      for (let i = 0; i < vocabulary.length; i++) {
+        weights[k][i] -= LEARNING_RATE * (gradients[k][i] / samples.length + L2_PENALTY * weights[k][i]);
+      }
+    });
+  }
+
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  const serialized: TopicModel['weights'] = {};
+  vocabulary.forEach((term, i) => {
+    const termWeights: Record<string, number> = {};
+    topics.forEach((topic, k) => {
+      if (Math.abs(weights[k][i]) >= MIN_WEIGHT) termWeights[topic] = round(weights[k][i]);
+    });
+    if (Object.keys(termWeights).length > 0) serialized[term] = termWeights;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    topics,
+    bias: Object.fromEntries(topics.map((topic, k) => [topic, round(bias[k])])),
+    weights: serialized,
+  };
+}
+
+let cachedModel: TopicModel | null = null;
+
+function loadTopicModel(): TopicModel {
+  if (!cachedModel) {
+    cachedModel = JSON.parse(readFileSync(TOPIC_MODEL_PATH, 'utf-8')) as TopicModel;
+  }
+  return cachedModel;
+}
+
+/**
+ * Probabilité de chaque thème pour un texte (titre + description)
+ */
+export function classifyTopic(text: string, language?: string, model = loadTopicModel()): TopicPrediction {
+  const vector = featureVector(topicTerms(text, language));
+  const scores = model.topics.map(topic => {
+    let score = model.bias[topic];
+    for (const [term, value] of vector) score += (model.weights[term]?.[topic] || 0) * value;
+    return score;
+  });
+
+  const probabilities = softmax(scores)
+    .map((probability, k) => ({ topic: model.topics[k], probability }))
+    .sort((a, b) => b.probability - a.probability);
+
+  return { topic: probabilities[0].topic, probability: probabilities[0].probability, probabilities };
+}
+
+/**
+ * Avance du thème prédit sur le thème non exclu le plus probable
+ * (0 si le thème prédit n'est pas exclu)
+ */
+export function topicMargin(prediction: TopicPrediction, exclude: string[]): number {
+  if (!exclude.includes(prediction.topic)) return 0;
+  const kept = prediction.probabilities.find(p => !exclude.includes(p.topic));
+  return prediction.probability - (kept?.probability ?? 0);
+}
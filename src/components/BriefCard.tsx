@@ -1,8 +1,8 @@
 import { useState, useEffect, useRef, memo } from 'react';
-import { ChevronDown, ChevronUp, Share2, Check } from 'lucide-react';
+import { ChevronDown, ChevronUp, Share2, Check, ExternalLink } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { MiniMap } from '@/components/MiniMap';
-import type { Story } from '@/types';
+import type { Citation, Story } from '@/types';
 
 const CATEGORY_LABELS = {
   geopolitique: 'Géopolitique',
@@ -22,6 +22,32 @@ const BULLET_TEXT = {
   eco: 'text-emerald-400',
 } as const;
 
+/**
+ * Liens vers les articles sources d'un bullet ou d'un paragraphe
+ */
+function CitationLinks({ citations }: { citations?: Citation[] }) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-1.5 align-middle">
+      {citations.map((citation) => (
+        <a
+          key={citation.url}
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={`Lire l'article : ${citation.source}`}
+          className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-white/5 border border-white/10 font-mono text-[9px] uppercase tracking-wide text-slate-500 hover:text-slate-300 hover:bg-white/10 transition-colors"
+        >
+          {/* "Le Monde - International" → "Le Monde" */}
+          {citation.source.split(' - ')[0]}
+          <ExternalLink className="w-2.5 h-2.5" />
+        </a>
+      ))}
+    </span>
+  );
+}
+
 interface BriefCardProps {
   story: Story;
   isActive: boolean;
@@ -132,6 +158,7 @@ export const BriefCard = memo(function BriefCard({ story, isActive, onObserve }:
                   </span>
                   <span className="text-slate-400 leading-relaxed text-[13px]">
                     {bullet}
+                    <CitationLinks citations={story.citations?.bullets[index]} />
                   </span>
                 </li>
               ))}
@@ -144,10 +171,24 @@ export const BriefCard = memo(function BriefCard({ story, isActive, onObserve }:
                 Sources : {story.sources.join(' • ')}
               </p>
 
-              {/* Exec Summary */}
-              <p className="text-slate-400 leading-relaxed whitespace-pre-line text-[13px]">
-                {story.execSummary}
-              </p>
+              {/* Exec Summary, cited paragraph by paragraph when citations are available */}
+              {story.citations ? (
+                <div className="space-y-3">
+                  {story.execSummary
+                    .split('\n')
+                    .filter((paragraph) => paragraph.trim().length > 0)
+                    .map((paragraph, index) => (
+                      <p key={index} className="text-slate-400 leading-relaxed text-[13px]">
+                        {paragraph}
+                        <CitationLinks citations={story.citations?.execSummary[index]} />
+                      </p>
+                    ))}
+                </div>
+              ) : (
+                <p className="text-slate-400 leading-relaxed whitespace-pre-line text-[13px]">
+                  {story.execSummary}
+                </p>
+              )}
             </div>
           )}
 
@@ -6,6 +6,16 @@ export interface Location {
   name: string; // ex: "Détroit de Taïwan", "Bruxelles", "Téhéran"
 }
 
+export interface Citation {
+  source: string; // ex: "France 24"
+  url: string; // Article original
+}
+
+export interface StoryCitations {
+  bullets: Citation[][]; // Articles sources de chaque bullet (mêmes index)
+  execSummary: Citation[][]; // Articles sources de chaque paragraphe de l'execSummary
+}
+
 export interface Story {
   id: string; // Format: "2026-01-24-01"
   category: Category;
@@ -16,6 +26,33 @@ export interface Story {
   execSummary: string; // 200-300 mots
   sources: string[]; // ex: ["Le Monde", "The Economist"]
   publishedAt: string; // ISO date
+  threadId?: string; // Fil d'actualité commun aux stories d'un même sujet sur plusieurs jours
+  previousStoryIds?: string[]; // Stories précédentes du fil, de la plus ancienne à la plus récente
+  grounding?: GroundingReport; // Affirmations vérifiées dans les articles sources
+  citations?: StoryCitations;
+}
+
+// Rapport de scripts/grounding.ts, validé par scripts/story-schema.ts
+export type GroundingStatus = "grounded" | "flagged" | "rejected";
+
+export type ClaimKind = "number" | "entity" | "name" | "quote";
+
+export interface GroundingClaim {
+  kind: ClaimKind;
+  text: string; // Texte de l'affirmation tel qu'écrit dans la story
+  field: string; // Champ où elle apparaît (ex: "bullets[2]", "execSummary")
+}
+
+export interface UnsupportedClaim extends GroundingClaim {
+  judgeNote?: string; // Explication du juge, quand il a été consulté
+}
+
+export interface GroundingReport {
+  status: GroundingStatus;
+  claimCount: number; // Affirmations vérifiées
+  judgedSupported: number; // Affirmations confirmées par le juge (introuvables telles quelles)
+  unsupported: UnsupportedClaim[];
+  judgeUnavailable?: boolean; // Juge injoignable : affirmations introuvables non vérifiées, story signalée et non rejetée
 }
 
 export interface Edition {
@@ -0,0 +1,27 @@
+-- Migration: Add persistent article archive (mirror of data/articles/*.jsonl)
+-- Run this in Supabase Dashboard SQL Editor
+-- ===========================================
+
+-- 1. Create table for curated articles (append-only, keyed by curate.ts article id)
+CREATE TABLE IF NOT EXISTS articles (
+  id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  category VARCHAR(20) NOT NULL,
+  published_at TIMESTAMPTZ NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Create index for date-range lookups (clustering / retro-analysis)
+CREATE INDEX IF NOT EXISTS articles_published_at_idx
+ON articles (published_at DESC);
+
+-- 3. Enable RLS on articles
+-- No policies needed: only backend scripts access this table via service_role (bypasses RLS)
+ALTER TABLE articles ENABLE ROW LEVEL SECURITY;
+
+-- Revoke direct access from client roles
+REVOKE ALL ON articles FROM anon, authenticated;
+
+-- 4. Add comment for documentation
+COMMENT ON TABLE articles IS 'Append-only archive of curated RSS articles, mirrored from data/articles/';
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests of the content pipeline scripts (node only, no browser)
+export default defineConfig({
+  test: {
+    include: ['scripts/**/*.test.ts'],
+    environment: 'node',
+  },
+})